@@ -0,0 +1,54 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getChatContextOptions } from "@/lib/chat";
+import {
+  chatSessionScope,
+  getChatMessages,
+  getChatSession,
+} from "@/lib/chat-sessions";
+import { ChatView } from "@/components/chat/chat-view";
+import { ArrowLeft } from "lucide-react";
+
+interface ChatSessionPageProps {
+  params: Promise<{ sessionId: string }>;
+}
+
+export default async function ChatSessionPage({
+  params,
+}: ChatSessionPageProps) {
+  const { sessionId } = await params;
+
+  const session = await getChatSession(sessionId);
+
+  if (!session) {
+    notFound();
+  }
+
+  const [messages, contextOptions] = await Promise.all([
+    getChatMessages(session.id),
+    getChatContextOptions(),
+  ]);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Link
+        href="/chat"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to Chats
+      </Link>
+
+      <h1 className="text-2xl font-semibold tracking-tight">
+        {session.title ?? "New chat"}
+      </h1>
+
+      <ChatView
+        sessionId={session.id}
+        initialMessages={messages}
+        contextOptions={contextOptions}
+        initialScope={chatSessionScope(session)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, MessageSquare, Plus, Search, Trash2 } from "lucide-react";
+
+interface ChatSessionSummary {
+  id: string;
+  title: string | null;
+  updated_at: string;
+}
+
+export default function ChatPage() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    // Debounced, since search also matches message text on the server
+    const timeout = setTimeout(() => fetchSessions(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const fetchSessions = async (q: string) => {
+    try {
+      const params = new URLSearchParams();
+      if (q.trim()) params.set("q", q.trim());
+
+      const response = await fetch(`/api/chat/sessions?${params}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setSessions(data.sessions);
+      } else {
+        console.error("Error fetching chats:", data.error);
+      }
+    } catch (error) {
+      console.error("Error fetching chats:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+
+    try {
+      const response = await fetch("/api/chat/sessions", { method: "POST" });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.push(`/chat/${data.session.id}`);
+      } else {
+        console.error("Error creating chat:", data.error);
+        setIsCreating(false);
+      }
+    } catch (error) {
+      console.error("Error creating chat:", error);
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+
+    try {
+      const response = await fetch(`/api/chat/sessions/${id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setSessions((prev) => prev.filter((s) => s.id !== id));
+      } else {
+        const data = await response.json();
+        console.error("Error deleting chat:", data.error);
+      }
+    } catch (error) {
+      console.error("Error deleting chat:", error);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight">Chats</h1>
+          <p className="text-muted-foreground mt-1">
+            Ask questions across your synced episodes
+          </p>
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="gradient-accent border-0"
+        >
+          {isCreating ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4 mr-2" />
+          )}
+          New Chat
+        </Button>
+      </div>
+
+      {/* Search */}
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search chats..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-16 rounded-xl" />
+          ))}
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && sessions.length === 0 && (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">
+            {search.trim()
+              ? `No chats match "${search.trim()}"`
+              : "You have no chats yet"}
+          </p>
+        </div>
+      )}
+
+      {/* Session List */}
+      {!isLoading && sessions.length > 0 && (
+        <div className="space-y-2">
+          {sessions.map((session) => (
+            <Card key={session.id} className="py-0">
+              <CardContent className="flex items-center gap-3 p-4">
+                <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <Link
+                  href={`/chat/${session.id}`}
+                  className="flex-1 min-w-0 hover:underline"
+                >
+                  <p className="font-medium truncate">
+                    {session.title ?? "New chat"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(session.updated_at).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      year: "numeric",
+                    })}
+                  </p>
+                </Link>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(session.id)}
+                  disabled={deletingId === session.id}
+                  title="Delete chat"
+                >
+                  {deletingId === session.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { getOrCreateUserProfile } from "@/lib/actions/user";
 import { SidebarNav } from "@/components/sidebar-nav";
+import { AudioPlayerProvider } from "@/components/player/audio-player-provider";
+import { MiniPlayer } from "@/components/player/mini-player";
 
 export default async function AppLayout({
   children,
@@ -18,11 +20,14 @@ export default async function AppLayout({
   await getOrCreateUserProfile();
 
   return (
-    <div className="min-h-screen bg-background">
-      <SidebarNav />
-      <main className="ml-16 min-h-screen">
-        <div className="max-w-6xl mx-auto p-6">{children}</div>
-      </main>
-    </div>
+    <AudioPlayerProvider>
+      <div className="min-h-screen bg-background">
+        <SidebarNav />
+        <main className="ml-16 min-h-screen">
+          <div className="max-w-6xl mx-auto p-6">{children}</div>
+          <MiniPlayer />
+        </main>
+      </div>
+    </AudioPlayerProvider>
   );
 }
@@ -3,14 +3,16 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { PodcastCard } from "@/components/podcasts/podcast-card";
+import { AddFeedForm } from "@/components/podcasts/add-feed-form";
+import { OpmlImportButton } from "@/components/podcasts/opml-import-button";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Plus, Search } from "lucide-react";
+import { Download, Plus, Search } from "lucide-react";
 
 interface LibraryPodcast {
   id: string;
-  taddy_uuid: string;
+  taddy_uuid: string | null;
   name: string;
   description: string | null;
   author: string | null;
@@ -86,12 +88,28 @@ export default function LibraryPage() {
             {podcasts.length} podcast{podcasts.length !== 1 ? "s" : ""} saved
           </p>
         </div>
-        <Button asChild className="gradient-accent border-0">
-          <Link href="/">
-            <Plus className="h-4 w-4 mr-2" />
-            Add Podcasts
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <OpmlImportButton onImported={fetchLibrary} />
+          {podcasts.length > 0 && (
+            <Button asChild variant="outline">
+              <a href="/api/library/export.opml" download>
+                <Download className="h-4 w-4 mr-2" />
+                Export OPML
+              </a>
+            </Button>
+          )}
+          <Button asChild className="gradient-accent border-0">
+            <Link href="/">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Podcasts
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Add by feed URL */}
+      <div className="max-w-xl">
+        <AddFeedForm onAdded={fetchLibrary} />
       </div>
 
       {/* Search */}
@@ -0,0 +1,243 @@
+import { notFound } from "next/navigation";
+import Image from "next/image";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/server";
+import { getPodcastEpisode } from "@/lib/episodes";
+import { getPodcastDirectory } from "@/lib/podcast-directory";
+import { getPodcastProgress } from "@/lib/progress";
+import type { EpisodeTranscript } from "@/lib/podcast-directory";
+import { FeedError, fetchFeed } from "@/lib/rss";
+import { TaddyError, TaddyNotFoundError } from "@/lib/taddy-errors";
+import type { TaddyEpisode } from "@/lib/taddy";
+import { EpisodeTranscriptView } from "@/components/podcasts/episode-transcript-view";
+import { PlayEpisodeButton } from "@/components/player/play-episode-button";
+import type { PlayerEpisode } from "@/components/player/audio-player-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Calendar, Clock, ExternalLink, Radio } from "lucide-react";
+
+interface EpisodePageProps {
+  params: Promise<{ id: string; episodeId: string }>;
+  searchParams: Promise<{ t?: string }>;
+}
+
+/**
+ * Turn HTML show notes into plain text, keeping paragraph and line breaks.
+ */
+function showNotesText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h\d)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export default async function EpisodePage({
+  params,
+  searchParams,
+}: EpisodePageProps) {
+  const { id, episodeId: rawEpisodeId } = await params;
+  // Feed episode ids are guids or URLs, which arrive percent-encoded
+  const episodeId = decodeURIComponent(rawEpisodeId);
+  // Seconds into the episode to open the transcript at, e.g. from a chat
+  // citation
+  const { t } = await searchParams;
+  const highlightAt = t && Number.isFinite(Number(t)) ? Number(t) : undefined;
+
+  const supabase = await createClient();
+
+  const { data: podcast, error } = await supabase
+    .from("podcasts")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error || !podcast) {
+    notFound();
+  }
+
+  let episode: TaddyEpisode | undefined;
+  let transcript: EpisodeTranscript | null = null;
+  let transcriptError: string | null = null;
+
+  if (podcast.taddy_uuid) {
+    try {
+      episode = await getPodcastEpisode(podcast, episodeId);
+    } catch (error) {
+      if (error instanceof TaddyNotFoundError) {
+        notFound();
+      }
+      throw error;
+    }
+
+    try {
+      transcript = await getPodcastDirectory().getEpisodeTranscript(
+        episode.uuid,
+      );
+    } catch (error) {
+      if (!(error instanceof TaddyError)) {
+        throw error;
+      }
+      console.error("Error fetching transcript:", error);
+      transcriptError = error.userMessage;
+    }
+  } else {
+    // Podcasts added by RSS URL are read straight from the feed and have
+    // no directory transcripts
+    try {
+      const feed = await fetchFeed(podcast.rss_url);
+      episode = feed.episodes.find((e) => e.uuid === episodeId);
+    } catch (error) {
+      if (!(error instanceof FeedError)) {
+        throw error;
+      }
+      console.error("Error fetching feed:", error);
+    }
+
+    if (!episode) {
+      notFound();
+    }
+  }
+
+  const progress = (await getPodcastProgress(podcast.id))[episode.uuid];
+  const imageUrl = episode.imageUrl ?? podcast.image_url;
+  const playerEpisode: PlayerEpisode | null = episode.audioUrl
+    ? {
+        uuid: episode.uuid,
+        name: episode.name,
+        audioUrl: episode.audioUrl,
+        podcastName: podcast.name,
+        imageUrl,
+        href: `/podcasts/${id}/episodes/${encodeURIComponent(episode.uuid)}`,
+        podcastId: podcast.id,
+        resumeAt:
+          progress && !progress.completed
+            ? progress.position_seconds
+            : undefined,
+      }
+    : null;
+  const numbering = [
+    episode.seasonNumber && `Season ${episode.seasonNumber}`,
+    episode.episodeNumber && `Episode ${episode.episodeNumber}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-8">
+      {/* Back link */}
+      <Link
+        href={`/podcasts/${id}`}
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to {podcast.name}
+      </Link>
+
+      {/* Episode Header */}
+      <header className="flex gap-6">
+        <div className="size-40 shrink-0 rounded-xl overflow-hidden bg-card shadow-lg">
+          {imageUrl ? (
+            <Image
+              src={imageUrl}
+              alt={episode.name}
+              width={160}
+              height={160}
+              className="size-full object-cover"
+            />
+          ) : (
+            <div className="size-full flex items-center justify-center bg-muted">
+              <Radio className="size-16 text-muted-foreground" />
+            </div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0 space-y-3">
+          <div>
+            <p className="text-sm text-muted-foreground">{podcast.name}</p>
+            <h1 className="text-2xl font-bold text-foreground">
+              {episode.name}
+            </h1>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            {numbering.length > 0 && (
+              <Badge variant="secondary">{numbering.join(" · ")}</Badge>
+            )}
+            {episode.datePublished && (
+              <span className="flex items-center gap-1">
+                <Calendar className="size-3.5" />
+                {new Date(episode.datePublished * 1000).toLocaleDateString(
+                  "en-US",
+                  {
+                    month: "short",
+                    day: "numeric",
+                    year: "numeric",
+                  },
+                )}
+              </span>
+            )}
+            {episode.duration && (
+              <span className="flex items-center gap-1">
+                <Clock className="size-3.5" />
+                {Math.floor(episode.duration / 60)} min
+              </span>
+            )}
+          </div>
+          {playerEpisode && (
+            <div className="flex gap-2">
+              <PlayEpisodeButton
+                episode={playerEpisode}
+                size="sm"
+                className="gradient-accent border-0"
+              />
+              <Button asChild variant="outline" size="sm">
+                <a
+                  href={playerEpisode.audioUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Audio file
+                </a>
+              </Button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      {/* Show Notes */}
+      {episode.description && (
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">Show Notes</h2>
+          <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-line">
+            {showNotesText(episode.description)}
+          </p>
+        </section>
+      )}
+
+      {/* Transcript */}
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">Transcript</h2>
+        {transcriptError ? (
+          <p className="text-center py-12 text-muted-foreground">
+            Could not load transcript: {transcriptError}
+          </p>
+        ) : podcast.taddy_uuid ? (
+          <EpisodeTranscriptView
+            transcript={transcript}
+            episode={playerEpisode}
+            highlightAt={highlightAt}
+          />
+        ) : (
+          <p className="text-center py-12 text-muted-foreground">
+            Transcripts are not available for podcasts added by feed URL.
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -2,16 +2,30 @@ import { notFound } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/server";
-import { getEpisodes } from "@/lib/taddy";
+import { getPodcastEpisodes, getStoredSeasons } from "@/lib/episodes";
+import {
+  applyEpisodeFilters,
+  hasEpisodeFilters,
+  parseEpisodeFilters,
+  toEpisodeSearchParams,
+} from "@/lib/episode-filters";
+import { getPodcastProgress } from "@/lib/progress";
+import { getLatestPodcastSyncJob, type PodcastSyncJob } from "@/lib/sync-jobs";
+import { FeedError, fetchFeed } from "@/lib/rss";
+import type { TaddyEpisode } from "@/lib/taddy";
+import { PlayEpisodeButton } from "@/components/player/play-episode-button";
+import { MarkPlayedButton } from "@/components/podcasts/mark-played-button";
+import { PodcastSyncControl } from "@/components/podcasts/podcast-sync-control";
+import { EpisodeFiltersBar } from "@/components/podcasts/episode-filters-bar";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Clock, Calendar, Radio } from "lucide-react";
+import { ArrowLeft, Check, Clock, Calendar, Radio } from "lucide-react";
 
 const EPISODES_PER_PAGE = 25;
 
 interface PodcastPageProps {
   params: Promise<{ id: string }>;
-  searchParams: Promise<{ page?: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
 export default async function PodcastPage({
@@ -19,8 +33,14 @@ export default async function PodcastPage({
   searchParams,
 }: PodcastPageProps) {
   const { id } = await params;
-  const { page: pageParam } = await searchParams;
-  const page = Math.max(1, Number(pageParam) || 1);
+
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    for (const v of Array.isArray(value) ? value : [value]) {
+      if (v !== undefined) query.append(key, v);
+    }
+  }
+  const { page, filters } = parseEpisodeFilters(query);
 
   const supabase = await createClient();
 
@@ -35,12 +55,47 @@ export default async function PodcastPage({
     notFound();
   }
 
-  // Fetch episodes from Taddy
-  const episodes = await getEpisodes(
-    podcast.taddy_uuid,
-    page,
-    EPISODES_PER_PAGE
-  );
+  const progress = await getPodcastProgress(podcast.id);
+  const playedUuids = Object.values(progress)
+    .filter((p) => p.completed)
+    .map((p) => p.episode_uuid);
+
+  // Fetch episodes from the episode registry, or straight from the feed
+  // for podcasts added by RSS URL
+  let episodes: TaddyEpisode[] = [];
+  let seasons: number[] = [];
+  let feedError: string | null = null;
+  let syncJob: PodcastSyncJob | null = null;
+
+  if (podcast.taddy_uuid) {
+    [episodes, seasons, syncJob] = await Promise.all([
+      getPodcastEpisodes(podcast, page, EPISODES_PER_PAGE, filters),
+      getStoredSeasons(podcast.id),
+      // Sync progress is optional on this page
+      getLatestPodcastSyncJob(podcast.id).catch(() => null),
+    ]);
+  } else {
+    try {
+      const feed = await fetchFeed(podcast.rss_url);
+      episodes = applyEpisodeFilters(
+        feed.episodes,
+        filters,
+        new Set(playedUuids)
+      ).slice((page - 1) * EPISODES_PER_PAGE, page * EPISODES_PER_PAGE);
+      seasons = [
+        ...new Set(
+          feed.episodes
+            .map((e) => e.seasonNumber)
+            .filter((n): n is number => n !== null)
+        ),
+      ].sort((a, b) => a - b);
+    } catch (error) {
+      if (!(error instanceof FeedError)) {
+        throw error;
+      }
+      feedError = error.message;
+    }
+  }
   const hasMore = episodes.length === EPISODES_PER_PAGE;
   const hasPrevious = page > 1;
 
@@ -94,53 +149,133 @@ export default async function PodcastPage({
 
       {/* Episodes Section */}
       <section className="space-y-4">
-        <h2 className="text-lg font-semibold">Episodes</h2>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Episodes</h2>
+          <div className="flex items-center gap-2">
+            {podcast.taddy_uuid && (
+              <PodcastSyncControl podcastId={podcast.id} initialJob={syncJob} />
+            )}
+            {episodes.length > 0 && <MarkPlayedButton podcastId={podcast.id} />}
+          </div>
+        </div>
+
+        <EpisodeFiltersBar filters={filters} seasons={seasons} />
 
         {episodes.length === 0 ? (
           <p className="text-center py-12 text-muted-foreground">
-            No episodes found
+            {feedError
+              ? `Could not load feed: ${feedError}`
+              : hasEpisodeFilters(filters)
+                ? "No episodes match these filters"
+                : "No episodes found"}
           </p>
         ) : (
           <>
             {/* Episode List */}
             <div className="space-y-3">
-              {episodes.map((episode) => (
-                <Card
-                  key={episode.uuid}
-                  className="bg-card/50 border-border/50 hover:border-border transition-colors"
-                >
-                  <CardContent className="p-4">
-                    <h3 className="font-medium text-foreground line-clamp-2">
-                      {episode.name}
-                    </h3>
-                    <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
-                      {episode.datePublished && (
-                        <span className="flex items-center gap-1">
-                          <Calendar className="size-3.5" />
-                          {new Date(
-                            episode.datePublished * 1000
-                          ).toLocaleDateString("en-US", {
-                            month: "short",
-                            day: "numeric",
-                            year: "numeric",
-                          })}
-                        </span>
-                      )}
-                      {episode.duration && (
-                        <span className="flex items-center gap-1">
-                          <Clock className="size-3.5" />
-                          {Math.floor(episode.duration / 60)} min
-                        </span>
+              {episodes.map((episode) => {
+                const episodeProgress = progress[episode.uuid];
+                const duration =
+                  episodeProgress?.duration_seconds ?? episode.duration;
+                const isPlayed = episodeProgress?.completed ?? false;
+                const isStarted =
+                  !isPlayed && (episodeProgress?.position_seconds ?? 0) > 0;
+
+                return (
+                  <Card
+                    key={episode.uuid}
+                    id={`episode-${episode.uuid}`}
+                    className="scroll-mt-20 bg-card/50 border-border/50 hover:border-border transition-colors"
+                  >
+                    <CardContent className="p-4 flex gap-4">
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium text-foreground line-clamp-2">
+                          <Link
+                            href={`/podcasts/${id}/episodes/${encodeURIComponent(
+                              episode.uuid
+                            )}`}
+                            className="hover:underline"
+                          >
+                            {episode.name}
+                          </Link>
+                        </h3>
+                        <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
+                          {episode.datePublished && (
+                            <span className="flex items-center gap-1">
+                              <Calendar className="size-3.5" />
+                              {new Date(
+                                episode.datePublished * 1000
+                              ).toLocaleDateString("en-US", {
+                                month: "short",
+                                day: "numeric",
+                                year: "numeric",
+                              })}
+                            </span>
+                          )}
+                          {episode.duration && (
+                            <span className="flex items-center gap-1">
+                              <Clock className="size-3.5" />
+                              {Math.floor(episode.duration / 60)} min
+                            </span>
+                          )}
+                          {isPlayed && (
+                            <span className="flex items-center gap-1 text-primary">
+                              <Check className="size-3.5" />
+                              Played
+                            </span>
+                          )}
+                        </div>
+                        {episode.description && (
+                          <p className="mt-2 text-sm text-muted-foreground line-clamp-2">
+                            {episode.description}
+                          </p>
+                        )}
+                        {isStarted && duration && (
+                          <div
+                            className="mt-3 h-1 rounded-full bg-muted overflow-hidden"
+                            title={`${Math.floor(
+                              episodeProgress.position_seconds / 60
+                            )} of ${Math.floor(duration / 60)} min played`}
+                          >
+                            <div
+                              className="h-full bg-primary"
+                              style={{
+                                width: `${Math.min(
+                                  100,
+                                  (episodeProgress.position_seconds /
+                                    duration) *
+                                    100
+                                )}%`,
+                              }}
+                            />
+                          </div>
+                        )}
+                      </div>
+                      {episode.audioUrl && (
+                        <PlayEpisodeButton
+                          episode={{
+                            uuid: episode.uuid,
+                            name: episode.name,
+                            audioUrl: episode.audioUrl,
+                            podcastName: podcast.name,
+                            imageUrl: episode.imageUrl ?? podcast.image_url,
+                            href: `/podcasts/${id}/episodes/${encodeURIComponent(
+                              episode.uuid
+                            )}`,
+                            podcastId: podcast.id,
+                            resumeAt: isStarted
+                              ? episodeProgress.position_seconds
+                              : undefined,
+                          }}
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0 self-center"
+                        />
                       )}
-                    </div>
-                    {episode.description && (
-                      <p className="mt-2 text-sm text-muted-foreground line-clamp-2">
-                        {episode.description}
-                      </p>
-                    )}
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
 
             {/* Pagination */}
@@ -148,7 +283,12 @@ export default async function PodcastPage({
               <div className="flex justify-center gap-2 pt-4">
                 {hasPrevious && (
                   <Button asChild variant="outline">
-                    <Link href={`/podcasts/${id}?page=${page - 1}`}>
+                    <Link
+                      href={`/podcasts/${id}?${toEpisodeSearchParams(
+                        filters,
+                        page - 1
+                      )}`}
+                    >
                       Previous
                     </Link>
                   </Button>
@@ -158,7 +298,14 @@ export default async function PodcastPage({
                 </span>
                 {hasMore && (
                   <Button asChild variant="outline">
-                    <Link href={`/podcasts/${id}?page=${page + 1}`}>Next</Link>
+                    <Link
+                      href={`/podcasts/${id}?${toEpisodeSearchParams(
+                        filters,
+                        page + 1
+                      )}`}
+                    >
+                      Next
+                    </Link>
                   </Button>
                 )}
               </div>
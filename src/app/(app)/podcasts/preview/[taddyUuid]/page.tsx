@@ -0,0 +1,208 @@
+import { notFound, redirect } from "next/navigation";
+import Image from "next/image";
+import Link from "next/link";
+import { getPodcastDirectory } from "@/lib/podcast-directory";
+import { findLibraryPodcastId } from "@/lib/library";
+import { formatEnumLabel } from "@/lib/search-filters";
+import { TaddyNotFoundError } from "@/lib/taddy-errors";
+import { AddToLibraryButton } from "@/components/podcasts/add-to-library-button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Clock, Calendar, Radio } from "lucide-react";
+
+const EPISODES_PER_PAGE = 25;
+
+interface PodcastPreviewPageProps {
+  params: Promise<{ taddyUuid: string }>;
+  searchParams: Promise<{ page?: string }>;
+}
+
+/**
+ * Preview of a podcast straight from the podcast directory, for shows that
+ * are not in the user's library yet. Shows already in the library redirect
+ * to their library page.
+ */
+export default async function PodcastPreviewPage({
+  params,
+  searchParams,
+}: PodcastPreviewPageProps) {
+  const { taddyUuid } = await params;
+  const { page: pageParam } = await searchParams;
+  const page = Math.max(1, Number(pageParam) || 1);
+
+  const libraryPodcastId = await findLibraryPodcastId(taddyUuid);
+
+  if (libraryPodcastId) {
+    redirect(`/podcasts/${libraryPodcastId}`);
+  }
+
+  const directory = getPodcastDirectory();
+
+  let podcast;
+  let episodes;
+
+  try {
+    [podcast, episodes] = await Promise.all([
+      directory.getPodcast(taddyUuid),
+      directory.getEpisodes(taddyUuid, page, EPISODES_PER_PAGE),
+    ]);
+  } catch (error) {
+    if (error instanceof TaddyNotFoundError) {
+      notFound();
+    }
+    throw error;
+  }
+
+  const hasMore = episodes.length === EPISODES_PER_PAGE;
+  const hasPrevious = page > 1;
+
+  return (
+    <div className="space-y-8">
+      {/* Back link */}
+      <Link
+        href="/"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to Discover
+      </Link>
+
+      {/* Podcast Header */}
+      <header className="flex gap-6">
+        <div className="size-40 shrink-0 rounded-xl overflow-hidden bg-card shadow-lg">
+          {podcast.imageUrl ? (
+            <Image
+              src={podcast.imageUrl}
+              alt={podcast.name}
+              width={160}
+              height={160}
+              className="size-full object-cover"
+            />
+          ) : (
+            <div className="size-full flex items-center justify-center bg-muted">
+              <Radio className="size-16 text-muted-foreground" />
+            </div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0 space-y-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground truncate">
+              {podcast.name}
+            </h1>
+            {podcast.authorName && (
+              <p className="text-muted-foreground mt-1">
+                By {podcast.authorName}
+              </p>
+            )}
+            <p className="text-sm text-muted-foreground mt-1">
+              {[
+                podcast.totalEpisodesCount &&
+                  `${podcast.totalEpisodesCount} episodes`,
+                podcast.language && formatEnumLabel(podcast.language),
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          </div>
+          {podcast.genres && podcast.genres.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {podcast.genres.map((genre) => (
+                <Badge key={genre} variant="secondary" className="text-xs">
+                  {formatEnumLabel(genre)}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {podcast.description && (
+            <p className="text-sm text-muted-foreground line-clamp-4">
+              {podcast.description}
+            </p>
+          )}
+          <AddToLibraryButton taddyUuid={podcast.uuid} />
+        </div>
+      </header>
+
+      {/* Episodes Section */}
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">Latest Episodes</h2>
+
+        {episodes.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">
+            No episodes found
+          </p>
+        ) : (
+          <>
+            {/* Episode List */}
+            <div className="space-y-3">
+              {episodes.map((episode) => (
+                <Card
+                  key={episode.uuid}
+                  className="bg-card/50 border-border/50 hover:border-border transition-colors"
+                >
+                  <CardContent className="p-4">
+                    <h3 className="font-medium text-foreground line-clamp-2">
+                      {episode.name}
+                    </h3>
+                    <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
+                      {episode.datePublished && (
+                        <span className="flex items-center gap-1">
+                          <Calendar className="size-3.5" />
+                          {new Date(
+                            episode.datePublished * 1000,
+                          ).toLocaleDateString("en-US", {
+                            month: "short",
+                            day: "numeric",
+                            year: "numeric",
+                          })}
+                        </span>
+                      )}
+                      {episode.duration && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="size-3.5" />
+                          {Math.floor(episode.duration / 60)} min
+                        </span>
+                      )}
+                    </div>
+                    {episode.description && (
+                      <p className="mt-2 text-sm text-muted-foreground line-clamp-2">
+                        {episode.description}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Pagination */}
+            {(hasPrevious || hasMore) && (
+              <div className="flex justify-center gap-2 pt-4">
+                {hasPrevious && (
+                  <Button asChild variant="outline">
+                    <Link
+                      href={`/podcasts/preview/${taddyUuid}?page=${page - 1}`}
+                    >
+                      Previous
+                    </Link>
+                  </Button>
+                )}
+                <span className="flex items-center px-4 text-sm text-muted-foreground">
+                  Page {page}
+                </span>
+                {hasMore && (
+                  <Button asChild variant="outline">
+                    <Link
+                      href={`/podcasts/preview/${taddyUuid}?page=${page + 1}`}
+                    >
+                      Next
+                    </Link>
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
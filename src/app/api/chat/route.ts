@@ -0,0 +1,152 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { openai } from "@ai-sdk/openai";
+import {
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  generateId,
+  safeValidateUIMessages,
+  streamText,
+} from "ai";
+import {
+  buildCitations,
+  buildSystemPrompt,
+  CHAT_MODEL,
+  getSearchableEpisodeUuids,
+  latestQuestion,
+  retrieveChunks,
+} from "@/lib/chat";
+import {
+  appendChatExchange,
+  chatSessionScope,
+  getChatSession,
+  messageText,
+} from "@/lib/chat-sessions";
+import {
+  citedIndexes,
+  messageCitations,
+  type ChatUIMessage,
+} from "@/lib/citations";
+import { verifyCitations } from "@/lib/citation-verifier";
+
+/**
+ * POST /api/chat
+ * Answer the latest question in a conversation from the user's synced
+ * transcripts, streamed in the AI SDK UI message format. The excerpts
+ * the answer can cite are sent first, as a `data-citations` part, and
+ * replaced once the answer is complete by copies marking whether each
+ * cited excerpt supports what the answer says.
+ *
+ * `id` is the chat session (useChat sends it). Only the podcasts and
+ * episodes picked as its context are searched. Once the answer has
+ * finished streaming, the question and answer are saved to it.
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = await safeValidateUIMessages<ChatUIMessage>({
+      messages: body.messages,
+    });
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: "Invalid chat messages" },
+        { status: 400 },
+      );
+    }
+
+    const messages = validated.data;
+    const question = messages.findLast((m) => m.role === "user");
+
+    if (!question) {
+      return NextResponse.json(
+        { error: "No question to answer" },
+        { status: 400 },
+      );
+    }
+
+    const session =
+      typeof body.id === "string" ? await getChatSession(body.id) : null;
+
+    if (!session) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    const episodeUuids = await getSearchableEpisodeUuids(
+      chatSessionScope(session),
+    );
+    const chunks = await retrieveChunks(latestQuestion(messages), episodeUuids);
+
+    const citations = await buildCitations(chunks);
+
+    const result = streamText({
+      model: openai(CHAT_MODEL),
+      system: buildSystemPrompt(chunks),
+      messages: await convertToModelMessages(messages),
+    });
+
+    const stream = createUIMessageStream<ChatUIMessage>({
+      originalMessages: messages,
+      generateId,
+      execute: async ({ writer }) => {
+        // Same id both times, so the checked citations replace the first
+        writer.write({
+          type: "data-citations",
+          id: "citations",
+          data: citations,
+        });
+        writer.merge(result.toUIMessageStream({ sendFinish: false }));
+
+        writer.write({
+          type: "data-citations",
+          id: "citations",
+          data: await verifyCitations(await result.text, citations),
+        });
+        writer.write({ type: "finish" });
+      },
+      onFinish: async ({ responseMessage }) => {
+        try {
+          const usage = await result.totalUsage;
+          const cited = citedIndexes(messageText(responseMessage.parts));
+
+          await appendChatExchange(
+            session.id,
+            { role: "user", parts: question.parts },
+            {
+              role: "assistant",
+              parts: responseMessage.parts,
+              citations: messageCitations(responseMessage).filter((c) =>
+                cited.includes(c.index),
+              ),
+              model: CHAT_MODEL,
+              inputTokens: usage.inputTokens,
+              outputTokens: usage.outputTokens,
+            },
+          );
+        } catch (error) {
+          // The answer has already been streamed, so all we can do is log
+          console.error("Error saving chat exchange:", error);
+        }
+      },
+      onError: (error) => {
+        console.error("Error streaming chat response:", error);
+        return "Something went wrong while answering. Please try again.";
+      },
+    });
+
+    return createUIMessageStreamResponse({ stream });
+  } catch (error) {
+    console.error("Error answering chat:", error);
+    return NextResponse.json(
+      { error: "Failed to answer question" },
+      { status: 500 },
+    );
+  }
+}
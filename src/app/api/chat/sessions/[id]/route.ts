@@ -0,0 +1,113 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import {
+  chatContextSchema,
+  deleteChatSession,
+  getChatMessages,
+  getChatSession,
+  updateChatContext,
+} from "@/lib/chat-sessions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/chat/sessions/[id]
+ * Get a chat and its messages, oldest first
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const session = await getChatSession(id);
+
+    if (!session) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    const messages = await getChatMessages(id);
+    return NextResponse.json({ session, messages });
+  } catch (error) {
+    console.error("Error fetching chat:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch chat" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/chat/sessions/[id]
+ * Set the podcasts and episodes a chat draws on
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const parsed = chatContextSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid chat context" },
+        { status: 400 },
+      );
+    }
+
+    const session = await updateChatContext(id, parsed.data);
+
+    if (!session) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error("Error updating chat context:", error);
+    return NextResponse.json(
+      { error: "Failed to update chat context" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/chat/sessions/[id]
+ * Delete a chat and its messages
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteChatSession(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting chat:", error);
+    return NextResponse.json(
+      { error: "Failed to delete chat" },
+      { status: 500 },
+    );
+  }
+}
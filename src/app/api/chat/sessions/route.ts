@@ -0,0 +1,69 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createChatSession, listChatSessions } from "@/lib/chat-sessions";
+
+/**
+ * GET /api/chat/sessions
+ * List the current user's chats, most recent first. `q` searches titles
+ * and message text.
+ */
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const q = new URL(request.url).searchParams.get("q")?.trim();
+
+  try {
+    const sessions = await listChatSessions(q || undefined);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Error fetching chats:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch chats" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/chat/sessions
+ * Start a new chat
+ */
+export async function POST() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = await createClient();
+
+    // Get user profile
+    const { data: userProfile, error: profileError } = await supabase
+      .from("user_profiles")
+      .select("id")
+      .eq("clerk_user_id", userId)
+      .single();
+
+    if (profileError || !userProfile) {
+      return NextResponse.json(
+        { error: "User profile not found" },
+        { status: 404 },
+      );
+    }
+
+    const session = await createChatSession(userProfile.id);
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating chat:", error);
+    return NextResponse.json(
+      { error: "Failed to create chat" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { buildOpml } from "@/lib/opml";
+
+/**
+ * GET /api/library/export.opml
+ * Download the current user's library as an OPML subscription list
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data: userPodcasts, error } = await supabase
+      .from("user_podcasts")
+      .select("podcast:podcasts(name, rss_url)")
+      .order("added_at", { ascending: true })
+      .overrideTypes<
+        { podcast: { name: string; rss_url: string | null } | null }[],
+        { merge: false }
+      >();
+
+    if (error) {
+      console.error("Error exporting library:", error);
+      return NextResponse.json(
+        { error: "Failed to export library" },
+        { status: 500 },
+      );
+    }
+
+    const feeds = userPodcasts.flatMap(({ podcast }) =>
+      podcast?.rss_url
+        ? [{ title: podcast.name, xmlUrl: podcast.rss_url }]
+        : [],
+    );
+
+    return new Response(buildOpml("Podcast Chat Library", feeds), {
+      headers: {
+        "Content-Type": "text/x-opml; charset=utf-8",
+        "Content-Disposition":
+          'attachment; filename="podcast-chat-library.opml"',
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting library:", error);
+    return NextResponse.json(
+      { error: "Failed to export library" },
+      { status: 500 },
+    );
+  }
+}
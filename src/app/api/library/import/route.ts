@@ -0,0 +1,109 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { addPodcastToLibrary } from "@/lib/library";
+import {
+  opmlImportBatchSchema,
+  type OpmlImportFeed,
+  type OpmlImportRow,
+} from "@/lib/opml";
+import { getPodcastDirectory } from "@/lib/podcast-directory";
+import { describeTaddyError } from "@/lib/taddy-errors";
+
+const IMPORT_CONCURRENCY = 5;
+
+/**
+ * POST /api/library/import
+ * Import one batch of an OPML file's feeds into the user's library. The
+ * client parses the file and sends its feeds a batch at a time.
+ * Each feed is resolved against the podcast directory by RSS URL, then
+ * iTunes ID. Feeds the directory does not know are reported as unmatched.
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const parsed = opmlImportBatchSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid import batch" },
+        { status: 400 },
+      );
+    }
+
+    const { feeds } = parsed.data;
+    const supabase = await createClient();
+
+    // Get user profile
+    const { data: userProfile, error: profileError } = await supabase
+      .from("user_profiles")
+      .select("id")
+      .eq("clerk_user_id", userId)
+      .single();
+
+    if (profileError || !userProfile) {
+      return NextResponse.json(
+        { error: "User profile not found" },
+        { status: 404 },
+      );
+    }
+
+    const seen = new Set<string>();
+
+    const importFeed = async (feed: OpmlImportFeed): Promise<OpmlImportRow> => {
+      const row = { title: feed.title, xml_url: feed.xmlUrl };
+
+      if (seen.has(feed.xmlUrl)) {
+        return { ...row, status: "duplicate" };
+      }
+      seen.add(feed.xmlUrl);
+
+      try {
+        const directory = getPodcastDirectory();
+        const podcast =
+          (await directory.findPodcast({ rssUrl: feed.xmlUrl })) ??
+          (feed.itunesId
+            ? await directory.findPodcast({ itunesId: feed.itunesId })
+            : null);
+
+        if (!podcast) {
+          return { ...row, status: "unmatched" };
+        }
+
+        const result = await addPodcastToLibrary(userProfile.id, {
+          taddyUuid: podcast.uuid,
+        });
+
+        return { ...row, status: result.status };
+      } catch (error) {
+        console.error("Error importing feed:", feed.xmlUrl, error);
+        return {
+          ...row,
+          status: "failed",
+          error:
+            describeTaddyError(error)?.message ?? "Failed to add to library",
+        };
+      }
+    };
+
+    const results: OpmlImportRow[] = [];
+
+    for (let i = 0; i < feeds.length; i += IMPORT_CONCURRENCY) {
+      const group = feeds.slice(i, i + IMPORT_CONCURRENCY);
+      results.push(...(await Promise.all(group.map(importFeed))));
+    }
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error importing OPML:", error);
+    return NextResponse.json(
+      { error: "Failed to import OPML" },
+      { status: 500 },
+    );
+  }
+}
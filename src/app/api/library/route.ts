@@ -1,7 +1,9 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
-import { createClient, createAdminClient } from "@/lib/supabase/server";
-import { getPodcast } from "@/lib/taddy";
+import { createClient } from "@/lib/supabase/server";
+import { addPodcastToLibrary, LibraryError } from "@/lib/library";
+import { FeedError } from "@/lib/rss";
+import { describeTaddyError } from "@/lib/taddy-errors";
 
 /**
  * GET /api/library
@@ -26,6 +28,7 @@ export async function GET() {
         podcast:podcasts(
           id,
           taddy_uuid,
+          rss_url,
           name,
           description,
           author,
@@ -63,7 +66,7 @@ export async function GET() {
 
 /**
  * POST /api/library
- * Add a podcast to the user's library
+ * Add a podcast to the user's library, by Taddy UUID or by RSS/Atom feed URL
  */
 export async function POST(request: Request) {
   const { userId } = await auth();
@@ -73,17 +76,16 @@ export async function POST(request: Request) {
   }
 
   try {
-    const { taddy_uuid } = await request.json();
+    const { taddy_uuid, feed_url } = await request.json();
 
-    if (!taddy_uuid) {
+    if (!taddy_uuid && !feed_url) {
       return NextResponse.json(
-        { error: "taddy_uuid is required" },
+        { error: "taddy_uuid or feed_url is required" },
         { status: 400 },
       );
     }
 
     const supabase = await createClient();
-    const adminClient = createAdminClient();
 
     // Get user profile
     const { data: userProfile, error: profileError } = await supabase
@@ -99,81 +101,49 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check if podcast already exists in our database
-    let { data: existingPodcast } = await supabase
-      .from("podcasts")
-      .select("id")
-      .eq("taddy_uuid", taddy_uuid)
-      .single();
-
-    // If podcast doesn't exist, fetch from Taddy and create it
-    if (!existingPodcast) {
-      const taddyPodcast = await getPodcast(taddy_uuid);
-
-      const { data: newPodcast, error: insertError } = await adminClient
-        .from("podcasts")
-        .insert({
-          taddy_uuid: taddyPodcast.uuid,
-          itunes_id: taddyPodcast.itunesId?.toString() || null,
-          name: taddyPodcast.name,
-          description: taddyPodcast.description,
-          author: taddyPodcast.authorName,
-          image_url: taddyPodcast.imageUrl,
-          rss_url: taddyPodcast.rssUrl,
-          language: taddyPodcast.language || null,
-          total_episodes: taddyPodcast.totalEpisodesCount,
-          genres: taddyPodcast.genres || [],
-        })
-        .select("id")
-        .single();
-
-      if (insertError) {
-        console.error("Error creating podcast:", insertError);
-        return NextResponse.json(
-          { error: "Failed to add podcast" },
-          { status: 500 },
-        );
-      }
-
-      existingPodcast = newPodcast;
-    }
-
-    // Check if user already has this podcast in their library
-    const { data: existingUserPodcast } = await supabase
-      .from("user_podcasts")
-      .select("id")
-      .eq("user_id", userProfile.id)
-      .eq("podcast_id", existingPodcast.id)
-      .single();
+    const result = await addPodcastToLibrary(
+      userProfile.id,
+      taddy_uuid
+        ? { taddyUuid: String(taddy_uuid) }
+        : { feedUrl: String(feed_url) },
+    );
 
-    if (existingUserPodcast) {
+    if (result.status === "duplicate") {
       return NextResponse.json(
-        { error: "Podcast already in library" },
+        { error: "Podcast already in library", podcast_id: result.podcastId },
         { status: 409 },
       );
     }
 
-    // Add podcast to user's library
-    const { data: userPodcast, error: addError } = await supabase
-      .from("user_podcasts")
-      .insert({
-        user_id: userProfile.id,
-        podcast_id: existingPodcast.id,
-      })
-      .select("id")
-      .single();
+    return NextResponse.json({
+      success: true,
+      id: result.id,
+      podcast_id: result.podcastId,
+    });
+  } catch (error) {
+    console.error("Error adding to library:", error);
+
+    if (error instanceof FeedError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
 
-    if (addError) {
-      console.error("Error adding to library:", addError);
+    if (error instanceof LibraryError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const taddyError = describeTaddyError(error);
+    if (taddyError) {
       return NextResponse.json(
-        { error: "Failed to add to library" },
-        { status: 500 },
+        { error: taddyError.message },
+        {
+          status: taddyError.status,
+          headers: taddyError.retryAfter
+            ? { "Retry-After": String(Math.ceil(taddyError.retryAfter)) }
+            : undefined,
+        },
       );
     }
 
-    return NextResponse.json({ success: true, id: userPodcast.id });
-  } catch (error) {
-    console.error("Error adding to library:", error);
     return NextResponse.json(
       { error: "Failed to add podcast to library" },
       { status: 500 },
@@ -0,0 +1,155 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  cancelPodcastSync,
+  getLatestPodcastSyncJob,
+  startPodcastSync,
+} from "@/lib/sync-jobs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/podcasts/[id]/sync
+ * Get the progress of the current user's latest sync of a podcast
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const job = await getLatestPodcastSyncJob(id);
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Error fetching sync progress:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sync progress" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/podcasts/[id]/sync
+ * Sync all of a podcast's episodes, optionally with `concurrency` episodes
+ * at a time
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const concurrency =
+      body.concurrency === undefined ? undefined : Number(body.concurrency);
+
+    if (
+      concurrency !== undefined &&
+      !(Number.isInteger(concurrency) && concurrency > 0)
+    ) {
+      return NextResponse.json(
+        { error: "concurrency must be a positive integer" },
+        { status: 400 },
+      );
+    }
+
+    const supabase = await createClient();
+
+    // Get user profile
+    const { data: userProfile, error: profileError } = await supabase
+      .from("user_profiles")
+      .select("id")
+      .eq("clerk_user_id", userId)
+      .single();
+
+    if (profileError || !userProfile) {
+      return NextResponse.json(
+        { error: "User profile not found" },
+        { status: 404 },
+      );
+    }
+
+    const { data: podcast } = await supabase
+      .from("podcasts")
+      .select("id, taddy_uuid")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!podcast) {
+      return NextResponse.json({ error: "Podcast not found" }, { status: 404 });
+    }
+
+    if (!podcast.taddy_uuid) {
+      return NextResponse.json(
+        { error: "Podcasts added by RSS URL cannot be synced yet" },
+        { status: 422 },
+      );
+    }
+
+    const result = await startPodcastSync(
+      userProfile.id,
+      podcast.id,
+      concurrency,
+    );
+
+    if (result.status === "already_running") {
+      return NextResponse.json(
+        { error: "This podcast is already syncing", job: result.job },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ job: result.job }, { status: 202 });
+  } catch (error) {
+    console.error("Error starting sync:", error);
+    return NextResponse.json(
+      { error: "Failed to start sync" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/podcasts/[id]/sync
+ * Cancel the current user's in-progress sync of a podcast
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const job = await cancelPodcastSync(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "No sync in progress" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Error cancelling sync:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel sync" },
+      { status: 500 },
+    );
+  }
+}
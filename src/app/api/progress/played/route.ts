@@ -0,0 +1,88 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { markPodcastPlayed } from "@/lib/progress";
+import { FeedError } from "@/lib/rss";
+import { describeTaddyError } from "@/lib/taddy-errors";
+
+/**
+ * POST /api/progress/played
+ * Mark all of a podcast's episodes as played, or as unplayed with
+ * `completed: false`
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { podcast_id, completed = true } = await request.json();
+
+    if (!podcast_id) {
+      return NextResponse.json(
+        { error: "podcast_id is required" },
+        { status: 400 },
+      );
+    }
+
+    const supabase = await createClient();
+
+    // Get user profile
+    const { data: userProfile, error: profileError } = await supabase
+      .from("user_profiles")
+      .select("id")
+      .eq("clerk_user_id", userId)
+      .single();
+
+    if (profileError || !userProfile) {
+      return NextResponse.json(
+        { error: "User profile not found" },
+        { status: 404 },
+      );
+    }
+
+    const { data: podcast } = await supabase
+      .from("podcasts")
+      .select("id, taddy_uuid, rss_url")
+      .eq("id", podcast_id)
+      .maybeSingle();
+
+    if (!podcast) {
+      return NextResponse.json({ error: "Podcast not found" }, { status: 404 });
+    }
+
+    const updated = await markPodcastPlayed(
+      userProfile.id,
+      podcast,
+      completed !== false,
+    );
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error("Error marking episodes played:", error);
+
+    if (error instanceof FeedError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+
+    const taddyError = describeTaddyError(error);
+    if (taddyError) {
+      return NextResponse.json(
+        { error: taddyError.message },
+        {
+          status: taddyError.status,
+          headers: taddyError.retryAfter
+            ? { "Retry-After": String(Math.ceil(taddyError.retryAfter)) }
+            : undefined,
+        },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update progress" },
+      { status: 500 },
+    );
+  }
+}
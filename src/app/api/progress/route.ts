@@ -0,0 +1,89 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getPodcastProgress,
+  progressUpdateSchema,
+  saveProgress,
+} from "@/lib/progress";
+
+/**
+ * GET /api/progress?podcast_id=...
+ * Get the current user's progress in a podcast's episodes
+ */
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const podcastId = new URL(request.url).searchParams.get("podcast_id");
+
+  if (!podcastId) {
+    return NextResponse.json(
+      { error: "podcast_id is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const progress = await getPodcastProgress(podcastId);
+    return NextResponse.json({ progress: Object.values(progress) });
+  } catch (error) {
+    console.error("Error fetching progress:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch progress" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/progress
+ * Record the current user's position in an episode
+ */
+export async function PUT(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const parsed = progressUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid progress update" },
+        { status: 400 },
+      );
+    }
+
+    const supabase = await createClient();
+
+    // Get user profile
+    const { data: userProfile, error: profileError } = await supabase
+      .from("user_profiles")
+      .select("id")
+      .eq("clerk_user_id", userId)
+      .single();
+
+    if (profileError || !userProfile) {
+      return NextResponse.json(
+        { error: "User profile not found" },
+        { status: 404 },
+      );
+    }
+
+    const progress = await saveProgress(userProfile.id, parsed.data);
+
+    return NextResponse.json({ success: true, progress });
+  } catch (error) {
+    console.error("Error saving progress:", error);
+    return NextResponse.json(
+      { error: "Failed to save progress" },
+      { status: 500 },
+    );
+  }
+}
@@ -4,8 +4,13 @@ import { Button } from "@/components/ui/button";
 import { SidebarNav } from "@/components/sidebar-nav";
 import { getOrCreateUserProfile } from "@/lib/actions/user";
 import { DiscoverContent } from "@/components/discover/discover-content";
+import { parseSearchParams } from "@/lib/search-filters";
 
-export default async function Home() {
+interface HomeProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Home({ searchParams }: HomeProps) {
   const { userId } = await auth();
 
   // Show marketing page for non-authenticated users
@@ -61,13 +66,26 @@ export default async function Home() {
   // Ensure user has a profile
   await getOrCreateUserProfile();
 
+  // Restore a shared or bookmarked search from the URL
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    for (const v of Array.isArray(value) ? value : [value]) {
+      if (v !== undefined) params.append(key, v);
+    }
+  }
+  const { query, mode, filters } = parseSearchParams(params);
+
   // Show Discover page for authenticated users
   return (
     <div className="min-h-screen bg-background">
       <SidebarNav />
       <main className="ml-16 min-h-screen">
         <div className="max-w-6xl mx-auto p-6">
-          <DiscoverContent />
+          <DiscoverContent
+            initialQuery={query}
+            initialMode={mode}
+            initialFilters={filters}
+          />
         </div>
       </main>
     </div>
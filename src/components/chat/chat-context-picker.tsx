@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import type { ChatContextOptions, ChatScope } from "@/lib/chat";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, FileText, Plus, Radio, X } from "lucide-react";
+
+interface ChatContextPickerProps {
+  sessionId: string;
+  options: ChatContextOptions;
+  initialScope: ChatScope;
+}
+
+function toggle(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+}
+
+export function ChatContextPicker({
+  sessionId,
+  options,
+  initialScope,
+}: ChatContextPickerProps) {
+  const [scope, setScope] = useState(initialScope);
+  const [open, setOpen] = useState(false);
+
+  const podcastNames = new Map(options.podcasts.map((p) => [p.id, p.name]));
+  const episodeNames = new Map(options.episodes.map((e) => [e.id, e.name]));
+  const isEmpty =
+    scope.podcastIds.length === 0 && scope.episodeIds.length === 0;
+
+  const updateScope = async (next: ChatScope) => {
+    const previous = scope;
+    setScope(next);
+
+    try {
+      const response = await fetch(`/api/chat/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(next),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        console.error("Error updating chat context:", data.error);
+        setScope(previous);
+      }
+    } catch (error) {
+      console.error("Error updating chat context:", error);
+      setScope(previous);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {isEmpty && (
+        <span className="text-xs text-muted-foreground">
+          Searching all synced episodes
+        </span>
+      )}
+
+      {/* Selected scope */}
+      {scope.podcastIds.map((id) => (
+        <Badge key={id} variant="secondary" className="max-w-60 pr-1">
+          <Radio />
+          <span className="truncate">
+            {podcastNames.get(id) ?? "Unavailable podcast"}
+          </span>
+          <button
+            type="button"
+            onClick={() =>
+              updateScope({
+                ...scope,
+                podcastIds: toggle(scope.podcastIds, id),
+              })
+            }
+            className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+            aria-label="Remove from context"
+          >
+            <X />
+          </button>
+        </Badge>
+      ))}
+      {scope.episodeIds.map((id) => (
+        <Badge key={id} variant="secondary" className="max-w-60 pr-1">
+          <FileText />
+          <span className="truncate">
+            {episodeNames.get(id) ?? "Unavailable episode"}
+          </span>
+          <button
+            type="button"
+            onClick={() =>
+              updateScope({
+                ...scope,
+                episodeIds: toggle(scope.episodeIds, id),
+              })
+            }
+            className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+            aria-label="Remove from context"
+          >
+            <X />
+          </button>
+        </Badge>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-6 px-2 text-xs"
+        onClick={() => setOpen(true)}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Context
+      </Button>
+
+      {/* Picker */}
+      <CommandDialog
+        open={open}
+        onOpenChange={setOpen}
+        title="Chat context"
+        description="Choose the podcasts and episodes this chat draws on"
+      >
+        <CommandInput placeholder="Search podcasts and episodes..." />
+        <CommandList>
+          <CommandEmpty>No podcasts or synced episodes found.</CommandEmpty>
+          {options.podcasts.length > 0 && (
+            <CommandGroup heading="Library">
+              {options.podcasts.map((podcast) => (
+                <CommandItem
+                  key={podcast.id}
+                  value={`podcast:${podcast.id}`}
+                  keywords={[podcast.name]}
+                  onSelect={() =>
+                    updateScope({
+                      ...scope,
+                      podcastIds: toggle(scope.podcastIds, podcast.id),
+                    })
+                  }
+                >
+                  <Radio />
+                  <span className="flex-1 truncate">{podcast.name}</span>
+                  {scope.podcastIds.includes(podcast.id) && <Check />}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+          {options.episodes.length > 0 && (
+            <CommandGroup heading="Synced Episodes">
+              {options.episodes.map((episode) => (
+                <CommandItem
+                  key={episode.id}
+                  value={`episode:${episode.id}`}
+                  keywords={[episode.name, episode.podcast_name]}
+                  onSelect={() =>
+                    updateScope({
+                      ...scope,
+                      episodeIds: toggle(scope.episodeIds, episode.id),
+                    })
+                  }
+                >
+                  <FileText />
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{episode.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {episode.podcast_name}
+                    </p>
+                  </div>
+                  {scope.episodeIds.includes(episode.id) && <Check />}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </div>
+  );
+}
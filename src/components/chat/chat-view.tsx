@@ -0,0 +1,131 @@
+"use client";
+
+import { useChat } from "@ai-sdk/react";
+import { DefaultChatTransport } from "ai";
+import type { ChatContextOptions, ChatScope } from "@/lib/chat";
+import {
+  messageCitations,
+  unsupportedCitations,
+  type ChatUIMessage,
+} from "@/lib/citations";
+import { ChatContextPicker } from "@/components/chat/chat-context-picker";
+import { CitedResponse } from "@/components/chat/cited-response";
+import {
+  Message,
+  MessageContent,
+  MessageResponse,
+} from "@/components/ai-elements/message";
+import { Badge } from "@/components/ui/badge";
+import {
+  PromptInput,
+  PromptInputBody,
+  PromptInputFooter,
+  PromptInputSubmit,
+  PromptInputTextarea,
+  PromptInputTools,
+} from "@/components/ai-elements/prompt-input";
+import { AlertTriangle } from "lucide-react";
+
+interface ChatViewProps {
+  sessionId: string;
+  initialMessages: ChatUIMessage[];
+  contextOptions: ChatContextOptions;
+  initialScope: ChatScope;
+}
+
+export function ChatView({
+  sessionId,
+  initialMessages,
+  contextOptions,
+  initialScope,
+}: ChatViewProps) {
+  const { messages, sendMessage, status, stop, error } = useChat<ChatUIMessage>(
+    {
+      id: sessionId,
+      messages: initialMessages,
+      transport: new DefaultChatTransport({ api: "/api/chat" }),
+    },
+  );
+
+  const isBusy = status === "submitted" || status === "streaming";
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Messages */}
+      {messages.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">
+            Ask anything about the episodes you have synced
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-6">
+          {messages.map((message) => {
+            const citations = messageCitations(message);
+            const unsupported = unsupportedCitations(message);
+
+            return (
+              <Message key={message.id} from={message.role}>
+                <MessageContent>
+                  {message.parts.map((part, i) => {
+                    if (part.type !== "text") return null;
+
+                    return message.role === "assistant" ? (
+                      <CitedResponse key={i} citations={citations}>
+                        {part.text}
+                      </CitedResponse>
+                    ) : (
+                      <MessageResponse key={i}>{part.text}</MessageResponse>
+                    );
+                  })}
+                </MessageContent>
+                {unsupported.length > 0 && (
+                  <Badge
+                    variant="outline"
+                    className="border-amber-500/40 text-amber-600 dark:text-amber-400"
+                    title={`Not supported by the cited excerpt: ${unsupported
+                      .map((c) => `[${c.index}]`)
+                      .join(" ")}`}
+                  >
+                    <AlertTriangle />
+                    Some claims could not be verified
+                  </Badge>
+                )}
+              </Message>
+            );
+          })}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive">
+          Something went wrong while answering. Please try again.
+        </p>
+      )}
+
+      {/* Context and input */}
+      <ChatContextPicker
+        sessionId={sessionId}
+        options={contextOptions}
+        initialScope={initialScope}
+      />
+      <PromptInput
+        onSubmit={({ text }) => {
+          if (isBusy) {
+            stop();
+          } else if (text.trim()) {
+            sendMessage({ text });
+          }
+        }}
+      >
+        <PromptInputBody>
+          <PromptInputTextarea placeholder="Ask about your podcasts..." />
+        </PromptInputBody>
+        <PromptInputFooter>
+          <PromptInputTools />
+          <PromptInputSubmit status={status} />
+        </PromptInputFooter>
+      </PromptInput>
+    </div>
+  );
+}
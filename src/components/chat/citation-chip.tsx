@@ -0,0 +1,107 @@
+"use client";
+
+import Link from "next/link";
+import {
+  citationHref,
+  type Citation,
+  type CitationStatus,
+} from "@/lib/citations";
+import { formatTimestamp } from "@/lib/format";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, ExternalLink } from "lucide-react";
+
+interface CitationChipProps {
+  citation: Citation;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<CitationStatus, string> = {
+  supported: "bg-primary/10 text-primary hover:bg-primary/20",
+  weak: "bg-amber-500/15 text-amber-600 hover:bg-amber-500/25 dark:text-amber-400",
+  unsupported: "bg-destructive/10 text-destructive hover:bg-destructive/20",
+};
+
+const STATUS_MESSAGES: Partial<Record<CitationStatus, string>> = {
+  weak: "This excerpt only partly supports the claim.",
+  unsupported: "This excerpt does not appear to support the claim.",
+};
+
+function timeRange(citation: Citation): string | null {
+  if (citation.startTime === null) {
+    return null;
+  }
+
+  return citation.endTime !== null
+    ? `${formatTimestamp(citation.startTime)}–${formatTimestamp(citation.endTime)}`
+    : formatTimestamp(citation.startTime);
+}
+
+/**
+ * An inline `[n]` citation marker that previews the quoted transcript on
+ * hover and links to the episode at that point. Coloured by how well the
+ * excerpt supports the claim, once the answer has been checked.
+ */
+export function CitationChip({ citation, className }: CitationChipProps) {
+  const href = citationHref(citation);
+  const time = timeRange(citation);
+  const status = citation.verification?.status ?? "supported";
+  const chipClassName = cn(
+    "inline-flex items-center justify-center min-w-5 h-5 px-1 mx-0.5 rounded-full text-[10px] font-medium tabular-nums align-text-top no-underline transition-colors",
+    STATUS_STYLES[status],
+    className,
+  );
+
+  return (
+    <HoverCard openDelay={150} closeDelay={100}>
+      <HoverCardTrigger asChild>
+        {href ? (
+          <Link href={href} className={chipClassName}>
+            {citation.index}
+          </Link>
+        ) : (
+          <span className={chipClassName}>{citation.index}</span>
+        )}
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 space-y-2">
+        <div>
+          <p className="text-xs text-muted-foreground truncate">
+            {citation.podcastName}
+          </p>
+          <p className="text-sm font-medium line-clamp-2">
+            {citation.episodeName}
+          </p>
+        </div>
+        {(time || citation.speaker) && (
+          <p className="text-xs text-muted-foreground tabular-nums">
+            {[time, citation.speaker].filter(Boolean).join(" · ")}
+          </p>
+        )}
+        {STATUS_MESSAGES[status] && (
+          <p className="flex items-start gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+            {STATUS_MESSAGES[status]}
+          </p>
+        )}
+        <blockquote className="border-l-2 pl-3 text-sm text-foreground/90 leading-relaxed line-clamp-6">
+          {citation.text}
+        </blockquote>
+        {href && (
+          <Link
+            href={href}
+            className="inline-flex items-center text-xs font-medium text-primary hover:underline"
+          >
+            <ExternalLink className="h-3 w-3 mr-1" />
+            {citation.startTime !== null
+              ? `Open episode at ${formatTimestamp(citation.startTime)}`
+              : "Open episode"}
+          </Link>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useMemo, type ComponentProps } from "react";
+import { linkCitationMarkers, type Citation } from "@/lib/citations";
+import { MessageResponse } from "@/components/ai-elements/message";
+import { CitationChip } from "@/components/chat/citation-chip";
+
+interface CitedResponseProps {
+  children: string;
+  citations: Citation[];
+}
+
+/**
+ * An assistant answer rendered as Markdown, with its `[n]` markers shown
+ * as citation chips.
+ */
+export function CitedResponse({ children, citations }: CitedResponseProps) {
+  const components = useMemo(
+    () => ({
+      a: ({ href, children: label }: ComponentProps<"a">) => {
+        const index = href?.match(/^#cite-(\d+)$/)?.[1];
+        const citation =
+          index && citations.find((c) => c.index === Number(index));
+
+        if (citation) {
+          return <CitationChip citation={citation} />;
+        }
+
+        return (
+          <a
+            href={href}
+            className="wrap-anywhere font-medium text-primary underline"
+            rel="noreferrer"
+            target="_blank"
+          >
+            {label}
+          </a>
+        );
+      },
+    }),
+    [citations],
+  );
+
+  return (
+    <MessageResponse components={components}>
+      {linkCitationMarkers(children, citations)}
+    </MessageResponse>
+  );
+}
@@ -1,41 +1,211 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
 import { SearchInput } from "@/components/podcasts/search-input";
 import { PodcastCard } from "@/components/podcasts/podcast-card";
+import { EpisodeSearchCard } from "@/components/podcasts/episode-search-card";
+import { SearchFiltersBar } from "@/components/discover/search-filters-bar";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { ButtonGroup } from "@/components/ui/button-group";
 import {
+  searchEpisodesAction,
   searchPodcastsAction,
+  type EpisodeSearchResult,
+  type SearchPagination,
   type SearchResult,
 } from "@/lib/actions/podcasts";
+import {
+  toSearchParams,
+  type PodcastSearchFilters,
+  type SearchMode,
+} from "@/lib/search-filters";
+
+interface DiscoverContentProps {
+  initialQuery?: string;
+  initialMode?: SearchMode;
+  initialFilters?: PodcastSearchFilters;
+}
 
-export function DiscoverContent() {
+export function DiscoverContent({
+  initialQuery = "",
+  initialMode = "podcasts",
+  initialFilters = {},
+}: DiscoverContentProps) {
+  const router = useRouter();
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [episodeResults, setEpisodeResults] = useState<EpisodeSearchResult[]>(
+    [],
+  );
   const [isSearching, setIsSearching] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
   const [addingPodcast, setAddingPodcast] = useState<string | null>(null);
+  const [openingEpisode, setOpeningEpisode] = useState<string | null>(null);
+  const [query, setQuery] = useState(initialQuery);
+  const [mode, setMode] = useState<SearchMode>(initialMode);
+  const [filters, setFilters] = useState<PodcastSearchFilters>(initialFilters);
+  const [pagination, setPagination] = useState<SearchPagination | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [addedUuids, setAddedUuids] = useState<Set<string>>(new Set());
+  // Incremented on every new search so late pages from an older search
+  // are dropped instead of appended
+  const searchVersion = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
-  const handleSearch = async (query: string) => {
-    setIsSearching(true);
-    setHasSearched(true);
+  /**
+   * Fetch one page of results for the given mode and store it, replacing
+   * the current results for page 1 and appending (without duplicates)
+   * for later pages.
+   */
+  const loadPage = useCallback(
+    async (
+      query: string,
+      searchMode: SearchMode,
+      searchFilters: PodcastSearchFilters,
+      page: number,
+      version: number,
+    ) => {
+      if (searchMode === "episodes") {
+        const result = await searchEpisodesAction(query, page);
+        if (version !== searchVersion.current) return;
 
-    try {
-      const result = await searchPodcastsAction(query);
+        if (result.error) {
+          console.error("Search error:", result.error);
+          if (page === 1) setEpisodeResults([]);
+          return;
+        }
+
+        const episodes = result.episodes ?? [];
+        setEpisodeResults((prev) => {
+          if (page === 1) return episodes;
+          const seen = new Set(prev.map((e) => e.taddy_uuid));
+          return [...prev, ...episodes.filter((e) => !seen.has(e.taddy_uuid))];
+        });
+        setPagination(result.pagination ?? null);
+        return;
+      }
+
+      const result = await searchPodcastsAction(query, searchFilters, page);
+      if (version !== searchVersion.current) return;
 
       if (result.error) {
         console.error("Search error:", result.error);
+        if (page === 1) setResults([]);
+        return;
+      }
+
+      const podcasts = result.podcasts ?? [];
+      setResults((prev) => {
+        if (page === 1) return podcasts;
+        const seen = new Set(prev.map((p) => p.taddy_uuid));
+        return [
+          ...prev,
+          ...podcasts.filter(
+            (p) => !seen.has(p.taddy_uuid) && !addedUuids.has(p.taddy_uuid),
+          ),
+        ];
+      });
+      setPagination(result.pagination ?? null);
+    },
+    [addedUuids],
+  );
+
+  const handleSearch = useCallback(
+    async (
+      query: string,
+      searchMode: SearchMode = mode,
+      searchFilters: PodcastSearchFilters = filters,
+    ) => {
+      const version = ++searchVersion.current;
+      setQuery(query);
+      setIsSearching(true);
+      setHasSearched(true);
+      setPagination(null);
+
+      // Keep the URL in sync so searches can be shared and bookmarked
+      const params = toSearchParams(
+        query,
+        searchFilters,
+        searchMode,
+      ).toString();
+      window.history.replaceState(null, "", params ? `/?${params}` : "/");
+
+      try {
+        await loadPage(query, searchMode, searchFilters, 1, version);
+      } catch (error) {
+        console.error("Search error:", error);
         setResults([]);
-      } else {
-        setResults(result.podcasts ?? []);
+        setEpisodeResults([]);
+      } finally {
+        if (version === searchVersion.current) {
+          setIsSearching(false);
+        }
       }
+    },
+    [mode, filters, loadPage],
+  );
+
+  const handleLoadMore = useCallback(async () => {
+    if (!pagination?.hasMore || isLoadingMore) return;
+
+    const version = searchVersion.current;
+    setIsLoadingMore(true);
+
+    try {
+      await loadPage(query, mode, filters, pagination.page + 1, version);
     } catch (error) {
       console.error("Search error:", error);
-      setResults([]);
     } finally {
-      setIsSearching(false);
+      if (version === searchVersion.current) {
+        setIsLoadingMore(false);
+      }
+    }
+  }, [pagination, isLoadingMore, query, mode, filters, loadPage]);
+
+  const handleFiltersChange = (next: PodcastSearchFilters) => {
+    setFilters(next);
+    if (query) {
+      handleSearch(query, mode, next);
     }
   };
 
+  const handleModeChange = (next: SearchMode) => {
+    if (next === mode) return;
+    setMode(next);
+    if (query) {
+      handleSearch(query, next);
+    }
+  };
+
+  // Run the search encoded in the URL on first load. The ref keeps it to
+  // one run as handleSearch changes with the mode and filters.
+  const initialSearchRan = useRef(false);
+  useEffect(() => {
+    if (initialQuery && !initialSearchRan.current) {
+      initialSearchRan.current = true;
+      handleSearch(initialQuery, initialMode, initialFilters);
+    }
+  }, [initialQuery, initialMode, initialFilters, handleSearch]);
+
+  // Load the next page when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !pagination?.hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          handleLoadMore();
+        }
+      },
+      { rootMargin: "400px" },
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [pagination, handleLoadMore]);
+
   const handleAddToLibrary = async (taddyUuid: string) => {
     setAddingPodcast(taddyUuid);
 
@@ -47,6 +217,7 @@ export function DiscoverContent() {
       });
 
       if (response.ok) {
+        setAddedUuids((prev) => new Set(prev).add(taddyUuid));
         setResults((prev) => prev.filter((p) => p.taddy_uuid !== taddyUuid));
       } else {
         const data = await response.json();
@@ -59,6 +230,39 @@ export function DiscoverContent() {
     }
   };
 
+  /**
+   * Add the episode's podcast to the library (if it isn't already) and
+   * open the episode.
+   */
+  const handleOpenEpisode = async (episode: EpisodeSearchResult) => {
+    setOpeningEpisode(episode.taddy_uuid);
+
+    try {
+      const response = await fetch("/api/library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taddy_uuid: episode.podcast.taddy_uuid }),
+      });
+      const data = await response.json();
+
+      // 409 means the podcast is already in the library, which is fine here
+      if ((response.ok || response.status === 409) && data.podcast_id) {
+        router.push(
+          `/podcasts/${data.podcast_id}/episodes/${episode.taddy_uuid}`,
+        );
+      } else {
+        console.error("Add to library error:", data.error);
+        setOpeningEpisode(null);
+      }
+    } catch (error) {
+      console.error("Add to library error:", error);
+      setOpeningEpisode(null);
+    }
+  };
+
+  const hasResults =
+    mode === "episodes" ? episodeResults.length > 0 : results.length > 0;
+
   return (
     <div className="space-y-8">
       <div>
@@ -68,12 +272,46 @@ export function DiscoverContent() {
         </p>
       </div>
 
-      <div className="max-w-xl">
-        <SearchInput
-          onSearch={handleSearch}
-          isLoading={isSearching}
-          placeholder="Search podcasts, hosts, topics..."
-        />
+      <div className="space-y-3">
+        <div className="flex max-w-xl gap-2">
+          <ButtonGroup>
+            <Button
+              variant={mode === "podcasts" ? "secondary" : "outline"}
+              aria-pressed={mode === "podcasts"}
+              onClick={() => handleModeChange("podcasts")}
+              disabled={isSearching}
+            >
+              Podcasts
+            </Button>
+            <Button
+              variant={mode === "episodes" ? "secondary" : "outline"}
+              aria-pressed={mode === "episodes"}
+              onClick={() => handleModeChange("episodes")}
+              disabled={isSearching}
+            >
+              Episodes
+            </Button>
+          </ButtonGroup>
+          <div className="flex-1">
+            <SearchInput
+              onSearch={(q) => handleSearch(q)}
+              isLoading={isSearching}
+              placeholder={
+                mode === "episodes"
+                  ? "Search episodes by topic, guest, title..."
+                  : "Search podcasts, hosts, topics..."
+              }
+              defaultValue={initialQuery}
+            />
+          </div>
+        </div>
+        {mode === "podcasts" && (
+          <SearchFiltersBar
+            filters={filters}
+            onChange={handleFiltersChange}
+            disabled={isSearching}
+          />
+        )}
       </div>
 
       {isSearching && (
@@ -84,7 +322,15 @@ export function DiscoverContent() {
         </div>
       )}
 
-      {!isSearching && results.length > 0 && (
+      {!isSearching && hasResults && pagination?.total != null && (
+        <p className="text-sm text-muted-foreground">
+          {pagination.total.toLocaleString()}{" "}
+          {mode === "episodes" ? "episode" : "podcast"}
+          {pagination.total !== 1 ? "s" : ""} found
+        </p>
+      )}
+
+      {!isSearching && mode === "podcasts" && results.length > 0 && (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
           {results.map((podcast) => (
             <PodcastCard
@@ -97,10 +343,35 @@ export function DiscoverContent() {
         </div>
       )}
 
-      {!isSearching && hasSearched && results.length === 0 && (
+      {!isSearching && mode === "episodes" && episodeResults.length > 0 && (
+        <div className="space-y-3">
+          {episodeResults.map((episode) => (
+            <EpisodeSearchCard
+              key={episode.taddy_uuid}
+              episode={episode}
+              onOpen={handleOpenEpisode}
+              isLoading={openingEpisode === episode.taddy_uuid}
+            />
+          ))}
+        </div>
+      )}
+
+      {!isSearching && pagination?.hasMore && (
+        <div ref={sentinelRef} className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+
+      {!isSearching && hasSearched && !hasResults && (
         <div className="text-center py-12">
           <p className="text-muted-foreground">
-            No podcasts found. Try a different search term.
+            No {mode} found. Try a different search term.
           </p>
         </div>
       )}
@@ -108,7 +379,7 @@ export function DiscoverContent() {
       {!hasSearched && (
         <div className="text-center py-12">
           <p className="text-muted-foreground">
-            Search for podcasts to add to your library.
+            Search for podcasts or episodes to add to your library.
           </p>
         </div>
       )}
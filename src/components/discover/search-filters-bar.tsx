@@ -0,0 +1,155 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  PODCAST_GENRES,
+  PODCAST_LANGUAGES,
+  formatEnumLabel,
+  type PodcastGenre,
+  type PodcastLanguage,
+  type PodcastSearchFilters,
+} from "@/lib/search-filters";
+
+// Radix Select items cannot have an empty value
+const ANY = "any";
+
+const MIN_EPISODE_OPTIONS = [10, 50, 100, 500];
+
+interface SearchFiltersBarProps {
+  filters: PodcastSearchFilters;
+  onChange: (filters: PodcastSearchFilters) => void;
+  disabled?: boolean;
+}
+
+export function SearchFiltersBar({
+  filters,
+  onChange,
+  disabled,
+}: SearchFiltersBarProps) {
+  const update = (patch: Partial<PodcastSearchFilters>) => {
+    const next = { ...filters, ...patch };
+    // Drop cleared filters so they don't show up in the URL
+    for (const key of Object.keys(next) as (keyof PodcastSearchFilters)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    onChange(next);
+  };
+
+  const hasFilters = Object.keys(filters).length > 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={filters.genres?.[0] ?? ANY}
+        onValueChange={(value) =>
+          update({
+            genres: value === ANY ? undefined : [value as PodcastGenre],
+          })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" aria-label="Genre">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All genres</SelectItem>
+          {PODCAST_GENRES.map((genre) => (
+            <SelectItem key={genre} value={genre}>
+              {formatEnumLabel(genre)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.languages?.[0] ?? ANY}
+        onValueChange={(value) =>
+          update({
+            languages: value === ANY ? undefined : [value as PodcastLanguage],
+          })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" aria-label="Language">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All languages</SelectItem>
+          {PODCAST_LANGUAGES.map((language) => (
+            <SelectItem key={language} value={language}>
+              {formatEnumLabel(language)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.minEpisodes?.toString() ?? ANY}
+        onValueChange={(value) =>
+          update({ minEpisodes: value === ANY ? undefined : Number(value) })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" aria-label="Minimum episodes">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any length</SelectItem>
+          {MIN_EPISODE_OPTIONS.map((count) => (
+            <SelectItem key={count} value={count.toString()}>
+              {count}+ episodes
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.sortBy ?? "relevance"}
+        onValueChange={(value) =>
+          update({
+            sortBy: value === "popularity" ? "popularity" : undefined,
+          })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" aria-label="Sort by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="relevance">Most relevant</SelectItem>
+          <SelectItem value="popularity">Most popular</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Button
+        size="sm"
+        variant={filters.safeMode ? "secondary" : "outline"}
+        aria-pressed={!!filters.safeMode}
+        onClick={() =>
+          update({ safeMode: filters.safeMode ? undefined : true })
+        }
+        disabled={disabled}
+      >
+        Hide explicit
+      </Button>
+
+      {hasFilters && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onChange({})}
+          disabled={disabled}
+        >
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+
+/** What the player needs to know about an episode to play it. */
+export interface PlayerEpisode {
+  /** Episode UUID, used to tell whether a play call is for the current episode. */
+  uuid: string;
+  name: string;
+  audioUrl: string;
+  podcastName: string;
+  imageUrl: string | null;
+  /** Episode page to link back to from the player. */
+  href?: string;
+  /** Library podcast id. When set, listening progress is saved. */
+  podcastId?: string;
+  /** Saved position to resume from when played without a start time. */
+  resumeAt?: number;
+}
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2] as const;
+
+const SKIP_SECONDS = 15;
+// How often progress is saved while playing
+const PROGRESS_INTERVAL_MS = 15_000;
+
+/**
+ * Save the listening position for an episode. Uses keepalive so the
+ * request survives the tab closing.
+ */
+function reportProgress(
+  episode: PlayerEpisode,
+  audio: HTMLAudioElement,
+  completed?: boolean,
+) {
+  if (!episode.podcastId) return;
+
+  fetch("/api/progress", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      podcast_id: episode.podcastId,
+      episode_uuid: episode.uuid,
+      position_seconds: audio.currentTime,
+      duration_seconds: Number.isFinite(audio.duration) ? audio.duration : null,
+      completed,
+    }),
+    keepalive: true,
+  }).catch((error) => {
+    console.error("Progress save error:", error);
+  });
+}
+
+export interface AudioPlayerContextValue {
+  episode: PlayerEpisode | null;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+  /**
+   * Play an episode, optionally from a position in seconds. Calling this
+   * for the episode that is already loaded just seeks.
+   */
+  play: (episode: PlayerEpisode, startAt?: number) => void;
+  toggle: () => void;
+  seek: (seconds: number) => void;
+  /** Skip forward (positive) or back (negative) by `seconds`. */
+  skip: (seconds?: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  close: () => void;
+}
+
+const AudioPlayerContext = createContext<AudioPlayerContextValue | null>(null);
+
+export const useAudioPlayer = () => {
+  const ctx = useContext(AudioPlayerContext);
+  if (!ctx) {
+    throw new Error(
+      "Wrap your component inside <AudioPlayerProvider> to use useAudioPlayer().",
+    );
+  }
+  return ctx;
+};
+
+/**
+ * Owns the app's single <audio> element. Mounted in the (app) layout so
+ * playback continues across client-side navigation.
+ */
+export function AudioPlayerProvider({ children }: { children: ReactNode }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [episode, setEpisode] = useState<PlayerEpisode | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const lastReportedAt = useRef(0);
+
+  const play = useCallback(
+    (next: PlayerEpisode, startAt?: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      let position = startAt;
+
+      if (episode?.uuid !== next.uuid) {
+        if (episode && !audio.paused) {
+          reportProgress(episode, audio);
+        }
+        position ??= next.resumeAt;
+        setEpisode(next);
+        setCurrentTime(position ?? 0);
+        setDuration(0);
+        audio.src = next.audioUrl;
+        // Changing src resets the rate
+        audio.playbackRate = playbackRate;
+      }
+
+      if (position !== undefined) {
+        audio.currentTime = position;
+      }
+
+      audio.play().catch((error) => {
+        console.error("Audio playback error:", error);
+      });
+    },
+    [episode, playbackRate],
+  );
+
+  const toggle = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio || !episode) return;
+
+    if (audio.paused) {
+      audio.play().catch((error) => {
+        console.error("Audio playback error:", error);
+      });
+    } else {
+      audio.pause();
+    }
+  }, [episode]);
+
+  const seek = useCallback((seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const max = Number.isFinite(audio.duration) ? audio.duration : Infinity;
+    audio.currentTime = Math.min(Math.max(0, seconds), max);
+    setCurrentTime(audio.currentTime);
+  }, []);
+
+  const skip = useCallback(
+    (seconds: number = SKIP_SECONDS) => {
+      seek((audioRef.current?.currentTime ?? 0) + seconds);
+    },
+    [seek],
+  );
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    setPlaybackRateState(rate);
+    if (audioRef.current) {
+      audioRef.current.playbackRate = rate;
+    }
+  }, []);
+
+  const close = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio) {
+      if (episode) {
+        reportProgress(episode, audio);
+      }
+      audio.pause();
+      audio.removeAttribute("src");
+      audio.load();
+    }
+    setEpisode(null);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+  }, [episode]);
+
+  // Hardware media keys, lock screen and OS media controls
+  useEffect(() => {
+    if (!("mediaSession" in navigator)) return;
+
+    if (!episode) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: episode.name,
+      artist: episode.podcastName,
+      artwork: episode.imageUrl ? [{ src: episode.imageUrl }] : [],
+    });
+
+    const handlers: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ["play", () => audioRef.current?.play()],
+      ["pause", () => audioRef.current?.pause()],
+      ["seekbackward", (d) => skip(-(d.seekOffset ?? SKIP_SECONDS))],
+      ["seekforward", (d) => skip(d.seekOffset ?? SKIP_SECONDS)],
+      ["seekto", (d) => d.seekTime !== undefined && seek(d.seekTime)],
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this browser
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // Action not supported by this browser
+        }
+      }
+    };
+  }, [episode, seek, skip]);
+
+  const value = useMemo<AudioPlayerContextValue>(
+    () => ({
+      episode,
+      isPlaying,
+      currentTime,
+      duration,
+      playbackRate,
+      play,
+      toggle,
+      seek,
+      skip,
+      setPlaybackRate,
+      close,
+    }),
+    [
+      episode,
+      isPlaying,
+      currentTime,
+      duration,
+      playbackRate,
+      play,
+      toggle,
+      seek,
+      skip,
+      setPlaybackRate,
+      close,
+    ],
+  );
+
+  return (
+    <AudioPlayerContext.Provider value={value}>
+      {children}
+      <audio
+        ref={audioRef}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={(e) => {
+          setIsPlaying(false);
+          // Pause also fires when the episode ends, which onEnded reports
+          if (episode && !e.currentTarget.ended) {
+            reportProgress(episode, e.currentTarget);
+          }
+        }}
+        onEnded={(e) => {
+          setIsPlaying(false);
+          if (episode) {
+            reportProgress(episode, e.currentTarget, true);
+          }
+        }}
+        onTimeUpdate={(e) => {
+          setCurrentTime(e.currentTarget.currentTime);
+          if (
+            episode &&
+            !e.currentTarget.paused &&
+            Date.now() - lastReportedAt.current > PROGRESS_INTERVAL_MS
+          ) {
+            lastReportedAt.current = Date.now();
+            reportProgress(episode, e.currentTarget);
+          }
+        }}
+        onDurationChange={(e) =>
+          setDuration(
+            Number.isFinite(e.currentTarget.duration)
+              ? e.currentTarget.duration
+              : 0,
+          )
+        }
+      />
+    </AudioPlayerContext.Provider>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  PLAYBACK_RATES,
+  useAudioPlayer,
+} from "@/components/player/audio-player-provider";
+import { formatTimestamp } from "@/lib/format";
+import { Pause, Play, Radio, RotateCcw, RotateCw, X } from "lucide-react";
+
+/**
+ * Player bar pinned to the bottom of the app while an episode is loaded.
+ */
+export function MiniPlayer() {
+  const {
+    episode,
+    isPlaying,
+    currentTime,
+    duration,
+    playbackRate,
+    toggle,
+    seek,
+    skip,
+    setPlaybackRate,
+    close,
+  } = useAudioPlayer();
+
+  if (!episode) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* Keeps page content clear of the fixed bar */}
+      <div className="h-20" aria-hidden />
+      <div className="fixed bottom-0 left-16 right-0 z-30 h-20 border-t border-border bg-card/95 backdrop-blur">
+        <div className="max-w-6xl mx-auto h-full px-6 flex items-center gap-4">
+          <div className="size-12 shrink-0 rounded-md overflow-hidden bg-muted">
+            {episode.imageUrl ? (
+              <Image
+                src={episode.imageUrl}
+                alt={episode.podcastName}
+                width={48}
+                height={48}
+                className="size-full object-cover"
+              />
+            ) : (
+              <div className="size-full flex items-center justify-center">
+                <Radio className="size-5 text-muted-foreground" />
+              </div>
+            )}
+          </div>
+
+          <div className="w-56 min-w-0 shrink-0">
+            {episode.href ? (
+              <Link
+                href={episode.href}
+                className="block text-sm font-medium truncate hover:underline"
+              >
+                {episode.name}
+              </Link>
+            ) : (
+              <p className="text-sm font-medium truncate">{episode.name}</p>
+            )}
+            <p className="text-xs text-muted-foreground truncate">
+              {episode.podcastName}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => skip(-15)}
+              aria-label="Back 15 seconds"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              onClick={toggle}
+              aria-label={isPlaying ? "Pause" : "Play"}
+            >
+              {isPlaying ? (
+                <Pause className="h-4 w-4" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => skip(15)}
+              aria-label="Forward 15 seconds"
+            >
+              <RotateCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex-1 flex items-center gap-3 text-xs tabular-nums text-muted-foreground">
+            <span>{formatTimestamp(currentTime)}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={1}
+              value={Math.min(currentTime, duration || 0)}
+              onChange={(e) => seek(Number(e.target.value))}
+              disabled={!duration}
+              aria-label="Seek"
+              className="flex-1 accent-primary"
+            />
+            <span>{duration ? formatTimestamp(duration) : "--:--"}</span>
+          </div>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-14 tabular-nums"
+                aria-label="Playback speed"
+              >
+                {playbackRate}x
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuRadioGroup
+                value={String(playbackRate)}
+                onValueChange={(value) => setPlaybackRate(Number(value))}
+              >
+                {PLAYBACK_RATES.map((rate) => (
+                  <DropdownMenuRadioItem key={rate} value={String(rate)}>
+                    {rate}x
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={close}
+            aria-label="Close player"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
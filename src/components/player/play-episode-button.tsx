@@ -0,0 +1,60 @@
+"use client";
+
+import type { ComponentProps, ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  useAudioPlayer,
+  type PlayerEpisode,
+} from "@/components/player/audio-player-provider";
+import { Pause, Play } from "lucide-react";
+
+interface PlayEpisodeButtonProps extends Omit<
+  ComponentProps<typeof Button>,
+  "onClick" | "children"
+> {
+  episode: PlayerEpisode;
+  /** Position to start from, in seconds. */
+  startAt?: number;
+  /** Replaces the default play/pause icon and label. */
+  children?: ReactNode;
+}
+
+/**
+ * Plays an episode in the global player. Without `startAt` it toggles
+ * play/pause when the episode is already loaded.
+ */
+export function PlayEpisodeButton({
+  episode,
+  startAt,
+  children,
+  ...props
+}: PlayEpisodeButtonProps) {
+  const player = useAudioPlayer();
+  const isCurrent = player.episode?.uuid === episode.uuid;
+  const isPlaying = isCurrent && player.isPlaying;
+
+  const handleClick = () => {
+    if (isCurrent && startAt === undefined) {
+      player.toggle();
+    } else {
+      player.play(episode, startAt);
+    }
+  };
+
+  return (
+    <Button onClick={handleClick} {...props}>
+      {children ??
+        (isPlaying ? (
+          <>
+            <Pause className="h-4 w-4 mr-2" />
+            Pause
+          </>
+        ) : (
+          <>
+            <Play className="h-4 w-4 mr-2" />
+            Play
+          </>
+        ))}
+    </Button>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Rss } from "lucide-react";
+
+interface AddFeedFormProps {
+  onAdded: () => void;
+}
+
+export function AddFeedForm({ onAdded }: AddFeedFormProps) {
+  const [feedUrl, setFeedUrl] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ feed_url: feedUrl.trim() }),
+      });
+
+      if (response.ok) {
+        setFeedUrl("");
+        onAdded();
+      } else {
+        const data = await response.json();
+        setError(data.error ?? "Failed to add feed");
+      }
+    } catch (error) {
+      console.error("Add feed error:", error);
+      setError("Failed to add feed");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Rss className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="url"
+            value={feedUrl}
+            onChange={(e) => setFeedUrl(e.target.value)}
+            placeholder="Add by RSS feed URL..."
+            className="pl-9"
+            disabled={isAdding}
+          />
+        </div>
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={isAdding || !feedUrl.trim()}
+        >
+          {isAdding ? "Adding..." : "Add Feed"}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+
+interface AddToLibraryButtonProps {
+  taddyUuid: string;
+}
+
+/**
+ * Adds a podcast to the library, then opens its library page.
+ */
+export function AddToLibraryButton({ taddyUuid }: AddToLibraryButtonProps) {
+  const router = useRouter();
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taddy_uuid: taddyUuid }),
+      });
+      const data = await response.json();
+
+      // 409 means it was added elsewhere in the meantime
+      if ((response.ok || response.status === 409) && data.podcast_id) {
+        router.replace(`/podcasts/${data.podcast_id}`);
+        return;
+      }
+
+      setError(data.error ?? "Failed to add podcast");
+    } catch (error) {
+      console.error("Add to library error:", error);
+      setError("Failed to add podcast");
+    }
+
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        className="gradient-accent border-0"
+        onClick={handleAdd}
+        disabled={isAdding}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        {isAdding ? "Adding..." : "Add to Library"}
+      </Button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
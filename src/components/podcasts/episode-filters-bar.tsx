@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  hasEpisodeFilters,
+  toEpisodeSearchParams,
+  type EpisodeFilters,
+} from "@/lib/episode-filters";
+import { Search } from "lucide-react";
+
+// Radix Select items cannot have an empty value
+const ANY = "any";
+
+// Duration presets as "<min>-<max>" minutes, either end optional
+const DURATION_OPTIONS = [
+  { value: "-30", label: "Under 30 min" },
+  { value: "30-60", label: "30–60 min" },
+  { value: "60-", label: "Over 60 min" },
+];
+
+interface EpisodeFiltersBarProps {
+  filters: EpisodeFilters;
+  /** Seasons to offer in the season filter. Hidden when empty. */
+  seasons: number[];
+}
+
+/**
+ * Sort and filter controls for a podcast's episode list, kept in the URL
+ * so the server component can apply them.
+ */
+export function EpisodeFiltersBar({
+  filters,
+  seasons,
+}: EpisodeFiltersBarProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [isPending, startTransition] = useTransition();
+  const [keyword, setKeyword] = useState(filters.q ?? "");
+
+  const update = (patch: Partial<EpisodeFilters>) => {
+    const next = { ...filters, ...patch };
+    // Drop cleared filters so they don't show up in the URL
+    for (const key of Object.keys(next) as (keyof EpisodeFilters)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+
+    // Any change goes back to the first page
+    const params = toEpisodeSearchParams(next).toString();
+    startTransition(() => {
+      router.push(params ? `${pathname}?${params}` : pathname, {
+        scroll: false,
+      });
+    });
+  };
+
+  const handleKeywordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    update({ q: keyword.trim() || undefined });
+  };
+
+  const duration =
+    filters.minDuration || filters.maxDuration
+      ? `${filters.minDuration ?? ""}-${filters.maxDuration ?? ""}`
+      : ANY;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <form onSubmit={handleKeywordSubmit} className="relative">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+        <Input
+          type="search"
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          placeholder="Search episodes..."
+          aria-label="Search episodes"
+          className="h-8 w-52 pl-8 text-sm"
+          disabled={isPending}
+        />
+      </form>
+
+      <Select
+        value={filters.sort ?? "newest"}
+        onValueChange={(value) =>
+          update({ sort: value === "oldest" ? "oldest" : undefined })
+        }
+        disabled={isPending}
+      >
+        <SelectTrigger size="sm" aria-label="Sort by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="newest">Newest first</SelectItem>
+          <SelectItem value="oldest">Oldest first</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {seasons.length > 0 && (
+        <Select
+          value={filters.season?.toString() ?? ANY}
+          onValueChange={(value) =>
+            update({ season: value === ANY ? undefined : Number(value) })
+          }
+          disabled={isPending}
+        >
+          <SelectTrigger size="sm" aria-label="Season">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All seasons</SelectItem>
+            {seasons.map((season) => (
+              <SelectItem key={season} value={season.toString()}>
+                Season {season}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select
+        value={duration}
+        onValueChange={(value) => {
+          const [min, max] = value === ANY ? [] : value.split("-");
+          update({
+            minDuration: min ? Number(min) : undefined,
+            maxDuration: max ? Number(max) : undefined,
+          });
+        }}
+        disabled={isPending}
+      >
+        <SelectTrigger size="sm" aria-label="Duration">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any length</SelectItem>
+          {DURATION_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.played ?? ANY}
+        onValueChange={(value) =>
+          update({
+            played:
+              value === "played" || value === "unplayed" ? value : undefined,
+          })
+        }
+        disabled={isPending}
+      >
+        <SelectTrigger size="sm" aria-label="Played">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All episodes</SelectItem>
+          <SelectItem value="unplayed">Unplayed</SelectItem>
+          <SelectItem value="played">Played</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {(hasEpisodeFilters(filters) || filters.sort) && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            setKeyword("");
+            startTransition(() => {
+              router.push(pathname, { scroll: false });
+            });
+          }}
+          disabled={isPending}
+        >
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import Image from "next/image";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar, Clock, Radio } from "lucide-react";
+import type { EpisodeSearchResult } from "@/lib/actions/podcasts";
+
+interface EpisodeSearchCardProps {
+  episode: EpisodeSearchResult;
+  onOpen?: (episode: EpisodeSearchResult) => void;
+  isLoading?: boolean;
+}
+
+export function EpisodeSearchCard({
+  episode,
+  onOpen,
+  isLoading,
+}: EpisodeSearchCardProps) {
+  const imageUrl = episode.image_url ?? episode.podcast.image_url;
+
+  return (
+    <Card className="bg-card/50 border-border/50 hover:border-border transition-colors">
+      <CardContent className="p-4 flex gap-4">
+        <div className="size-20 shrink-0 rounded-lg overflow-hidden bg-muted">
+          {imageUrl ? (
+            <Image
+              src={imageUrl}
+              alt={episode.podcast.name}
+              width={80}
+              height={80}
+              className="size-full object-cover"
+            />
+          ) : (
+            <div className="size-full flex items-center justify-center">
+              <Radio className="size-8 text-muted-foreground" />
+            </div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-muted-foreground line-clamp-1">
+            {episode.podcast.name}
+            {episode.podcast.author && ` · ${episode.podcast.author}`}
+          </p>
+          <h3 className="font-medium text-foreground line-clamp-2">
+            {episode.name}
+          </h3>
+          <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
+            {episode.date_published && (
+              <span className="flex items-center gap-1">
+                <Calendar className="size-3.5" />
+                {new Date(episode.date_published * 1000).toLocaleDateString(
+                  "en-US",
+                  { month: "short", day: "numeric", year: "numeric" },
+                )}
+              </span>
+            )}
+            {episode.duration && (
+              <span className="flex items-center gap-1">
+                <Clock className="size-3.5" />
+                {Math.floor(episode.duration / 60)} min
+              </span>
+            )}
+          </div>
+          {episode.description && (
+            <p className="mt-2 text-sm text-muted-foreground line-clamp-2">
+              {episode.description}
+            </p>
+          )}
+        </div>
+        <div className="shrink-0 self-center">
+          <Button
+            className="gradient-accent border-0"
+            onClick={() => onOpen?.(episode)}
+            disabled={isLoading}
+          >
+            {isLoading ? "Adding..." : "Add & Open"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import type { EpisodeTranscript } from "@/lib/podcast-directory";
+import { formatTimestamp } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import { PlayEpisodeButton } from "@/components/player/play-episode-button";
+import { ScrollIntoView } from "@/components/podcasts/scroll-into-view";
+import type { PlayerEpisode } from "@/components/player/audio-player-provider";
+import { FileText } from "lucide-react";
+
+interface EpisodeTranscriptViewProps {
+  transcript: EpisodeTranscript | null;
+  /** When set, timestamps play the episode from that point. */
+  episode?: PlayerEpisode | null;
+  /** Seconds; the segment playing at this time is highlighted and scrolled to. */
+  highlightAt?: number;
+}
+
+// Taddy's taddyTranscribeStatus values that mean no transcript yet
+const STATUS_MESSAGES: Record<string, string> = {
+  PROCESSING: "A transcript is being generated for this episode.",
+  FAILED: "Transcription failed for this episode.",
+};
+
+/**
+ * An episode transcript as timestamped, speaker-labelled segments, falling
+ * back to the plain transcript text when there are no segments.
+ */
+export function EpisodeTranscriptView({
+  transcript,
+  episode,
+  highlightAt,
+}: EpisodeTranscriptViewProps) {
+  const segments = transcript?.segments ?? [];
+  const highlighted =
+    highlightAt === undefined
+      ? -1
+      : segments.findLastIndex((s) => s.startTime <= highlightAt);
+
+  if (segments.length === 0 && !transcript?.transcript) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <FileText className="size-8 mx-auto text-muted-foreground" />
+        <p className="text-muted-foreground">
+          {(transcript?.status && STATUS_MESSAGES[transcript.status]) ??
+            "No transcript is available for this episode yet."}
+        </p>
+      </div>
+    );
+  }
+
+  if (segments.length === 0) {
+    return (
+      <p className="text-sm text-foreground/90 leading-relaxed whitespace-pre-line">
+        {transcript?.transcript}
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-4">
+      {highlighted >= 0 && (
+        <ScrollIntoView
+          targetId={`t-${Math.floor(segments[highlighted].startTime)}`}
+        />
+      )}
+      {segments.map((segment, i) => {
+        // Only label the speaker when it changes
+        const showSpeaker =
+          segment.speaker && segment.speaker !== segments[i - 1]?.speaker;
+
+        return (
+          <li
+            key={i}
+            id={`t-${Math.floor(segment.startTime)}`}
+            className={cn(
+              "flex gap-4",
+              i === highlighted && "-mx-3 px-3 py-2 rounded-lg bg-primary/10",
+            )}
+          >
+            {episode ? (
+              <PlayEpisodeButton
+                episode={episode}
+                startAt={segment.startTime}
+                variant="link"
+                size="sm"
+                className="w-14 shrink-0 h-auto p-0 pt-0.5 justify-start text-xs tabular-nums text-muted-foreground"
+                aria-label={`Play from ${formatTimestamp(segment.startTime)}`}
+              >
+                {formatTimestamp(segment.startTime)}
+              </PlayEpisodeButton>
+            ) : (
+              <span className="w-14 shrink-0 pt-0.5 text-xs tabular-nums text-muted-foreground">
+                {formatTimestamp(segment.startTime)}
+              </span>
+            )}
+            <div className="min-w-0">
+              {showSpeaker && (
+                <p className="text-xs font-medium text-primary mb-1">
+                  {segment.speaker}
+                </p>
+              )}
+              <p className="text-sm text-foreground/90 leading-relaxed">
+                {segment.text}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { CheckCheck } from "lucide-react";
+
+interface MarkPlayedButtonProps {
+  podcastId: string;
+}
+
+/**
+ * Marks every episode of a podcast as played.
+ */
+export function MarkPlayedButton({ podcastId }: MarkPlayedButtonProps) {
+  const router = useRouter();
+  const [isMarking, setIsMarking] = useState(false);
+
+  const handleClick = async () => {
+    setIsMarking(true);
+
+    try {
+      const response = await fetch("/api/progress/played", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ podcast_id: podcastId }),
+      });
+
+      if (response.ok) {
+        router.refresh();
+      } else {
+        const data = await response.json();
+        console.error("Mark played error:", data.error);
+      }
+    } catch (error) {
+      console.error("Mark played error:", error);
+    } finally {
+      setIsMarking(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleClick}
+      disabled={isMarking}
+    >
+      <CheckCheck className="h-4 w-4 mr-2" />
+      {isMarking ? "Marking..." : "Mark all as played"}
+    </Button>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Upload } from "lucide-react";
+import {
+  MAX_IMPORT_BATCH,
+  MAX_OPML_BYTES,
+  MAX_OPML_FEEDS,
+  OpmlError,
+  parseOpml,
+  summarizeImport,
+  type OpmlFeed,
+  type OpmlImportRow,
+  type OpmlImportSummary,
+} from "@/lib/opml";
+
+interface OpmlImportButtonProps {
+  onImported: () => void;
+}
+
+/**
+ * Import one batch of feeds. A failed request marks the whole batch as
+ * failed, so the rest of the file still imports.
+ */
+async function importBatch(feeds: OpmlFeed[]): Promise<OpmlImportRow[]> {
+  const failed = (error: string) =>
+    feeds.map((feed) => ({
+      title: feed.title,
+      xml_url: feed.xmlUrl,
+      status: "failed" as const,
+      error,
+    }));
+
+  try {
+    const response = await fetch("/api/library/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        feeds: feeds.map(({ title, xmlUrl, itunesId }) => ({
+          title,
+          xmlUrl,
+          itunesId,
+        })),
+      }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return failed(data.error ?? "Failed to import");
+    }
+
+    return data.results;
+  } catch (error) {
+    console.error("OPML import error:", error);
+    return failed("Failed to import");
+  }
+}
+
+const STATUS_LABELS: Record<OpmlImportRow["status"], string> = {
+  added: "Added",
+  duplicate: "Already in library",
+  unmatched: "Not found",
+  failed: "Failed",
+};
+
+export function OpmlImportButton({ onImported }: OpmlImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<OpmlImportSummary | null>(null);
+  const [results, setResults] = useState<OpmlImportRow[]>([]);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    if (file.size > MAX_OPML_BYTES) {
+      setError("OPML file is too large");
+      setSummary(null);
+      return;
+    }
+
+    let feeds: OpmlFeed[];
+
+    try {
+      feeds = parseOpml(await file.text());
+    } catch (error) {
+      setError(
+        error instanceof OpmlError ? error.message : "Failed to read OPML",
+      );
+      setSummary(null);
+      return;
+    }
+
+    if (feeds.length > MAX_OPML_FEEDS) {
+      setError(`OPML file has more than ${MAX_OPML_FEEDS} feeds`);
+      setSummary(null);
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    setProgress({ done: 0, total: feeds.length });
+
+    const imported: OpmlImportRow[] = [];
+
+    for (let i = 0; i < feeds.length; i += MAX_IMPORT_BATCH) {
+      imported.push(
+        ...(await importBatch(feeds.slice(i, i + MAX_IMPORT_BATCH))),
+      );
+      setProgress({ done: imported.length, total: feeds.length });
+    }
+
+    setSummary(summarizeImport(imported));
+    setResults(imported);
+    setIsImporting(false);
+    setProgress(null);
+    onImported();
+  };
+
+  const isOpen = summary !== null || error !== null;
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+        className="hidden"
+        onChange={handleFile}
+      />
+      <Button
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+      >
+        <Upload className="h-4 w-4 mr-2" />
+        {isImporting
+          ? progress
+            ? `Importing ${progress.done}/${progress.total}...`
+            : "Importing..."
+          : "Import OPML"}
+      </Button>
+
+      <Dialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSummary(null);
+            setError(null);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>OPML Import</DialogTitle>
+            <DialogDescription>
+              {error
+                ? error
+                : summary &&
+                  `${summary.added} added, ${summary.duplicate} already in library, ${summary.unmatched} not found, ${summary.failed} failed`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {results.length > 0 && !error && (
+            <ScrollArea className="max-h-80">
+              <ul className="space-y-2 pr-4">
+                {results.map((row, i) => (
+                  <li
+                    key={`${row.xml_url}-${i}`}
+                    className="flex items-center justify-between gap-2 text-sm"
+                  >
+                    <span className="truncate" title={row.xml_url}>
+                      {row.title ?? row.xml_url}
+                    </span>
+                    <Badge
+                      variant={
+                        row.status === "added"
+                          ? "default"
+                          : row.status === "failed"
+                            ? "destructive"
+                            : "secondary"
+                      }
+                      title={row.error}
+                    >
+                      {STATUS_LABELS[row.status]}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
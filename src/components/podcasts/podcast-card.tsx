@@ -8,7 +8,7 @@ import { Badge } from "@/components/ui/badge";
 
 export interface PodcastCardProps {
   id?: string;
-  taddy_uuid: string;
+  taddy_uuid: string | null;
   name: string;
   description: string | null;
   author: string | null;
@@ -35,7 +35,14 @@ export function PodcastCard({
   onRemove,
   isLoading,
 }: PodcastCardProps) {
-  const isClickable = isInLibrary && id;
+  // Library podcasts open their library page; search results open a
+  // directory preview so the show can be inspected before adding it
+  const href =
+    isInLibrary && id
+      ? `/podcasts/${id}`
+      : !isInLibrary && taddy_uuid
+        ? `/podcasts/preview/${taddy_uuid}`
+        : null;
 
   const cardContent = (
     <>
@@ -86,8 +93,8 @@ export function PodcastCard({
 
   return (
     <Card className="overflow-hidden bg-card/50 border-border/50 hover:border-border transition-colors">
-      {isClickable ? (
-        <Link href={`/podcasts/${id}`} className="block cursor-pointer">
+      {href ? (
+        <Link href={href} className="block cursor-pointer">
           {cardContent}
         </Link>
       ) : (
@@ -112,7 +119,7 @@ export function PodcastCard({
         ) : (
           <Button
             className="w-full gradient-accent border-0"
-            onClick={() => onAdd?.(taddy_uuid)}
+            onClick={() => taddy_uuid && onAdd?.(taddy_uuid)}
             disabled={isLoading}
           >
             {isLoading ? "Adding..." : "Add to Library"}
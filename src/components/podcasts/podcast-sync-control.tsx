@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import type { PodcastSyncJob } from "@/lib/sync-jobs";
+import { RefreshCw, X } from "lucide-react";
+
+// How often progress is fetched while a sync is running
+const POLL_INTERVAL_MS = 3000;
+
+interface PodcastSyncControlProps {
+  podcastId: string;
+  /** The user's latest sync of this podcast, if any. */
+  initialJob: PodcastSyncJob | null;
+}
+
+function isActive(job: PodcastSyncJob | null): boolean {
+  return job?.status === "queued" || job?.status === "running";
+}
+
+/**
+ * Starts a sync of every episode of a podcast and shows its progress
+ * until it finishes.
+ */
+export function PodcastSyncControl({
+  podcastId,
+  initialJob,
+}: PodcastSyncControlProps) {
+  const router = useRouter();
+  const [job, setJob] = useState(initialJob);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const active = isActive(job);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/podcasts/${podcastId}/sync`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          console.error("Sync progress error:", data.error);
+          return;
+        }
+
+        setJob(data.job);
+        if (!isActive(data.job)) {
+          router.refresh();
+        }
+      } catch (error) {
+        console.error("Sync progress error:", error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [active, podcastId, router]);
+
+  const handleStart = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/podcasts/${podcastId}/sync`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      // 409 means a sync is already running, which we can show instead
+      if (response.ok || response.status === 409) {
+        setJob(data.job);
+      } else {
+        console.error("Sync error:", data.error);
+      }
+    } catch (error) {
+      console.error("Sync error:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/podcasts/${podcastId}/sync`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setJob(data.job);
+      } else {
+        console.error("Cancel sync error:", data.error);
+      }
+    } catch (error) {
+      console.error("Cancel sync error:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (job && active) {
+    const finished = job.done_count + job.failed_count;
+
+    return (
+      <div className="flex items-center gap-3">
+        <div className="w-40 space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {job.total_count > 0
+              ? `Synced ${finished} of ${job.total_count}`
+              : "Preparing sync..."}
+          </p>
+          <div className="h-1 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{
+                width: `${
+                  job.total_count > 0 ? (finished / job.total_count) * 100 : 0
+                }%`,
+              }}
+            />
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleCancel}
+          disabled={isSubmitting}
+        >
+          <X className="h-4 w-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      {job?.status === "completed" && job.failed_count > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {job.failed_count} episode{job.failed_count === 1 ? "" : "s"} could
+          not be synced
+        </p>
+      )}
+      {job?.status === "failed" && job.error_message && (
+        <p className="text-xs text-destructive">{job.error_message}</p>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleStart}
+        disabled={isSubmitting}
+      >
+        <RefreshCw className="h-4 w-4 mr-2" />
+        {job?.status === "completed"
+          ? "Sync new episodes"
+          : "Sync all episodes"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Scroll the element with the given id to the middle of the viewport once
+ * the page has rendered.
+ */
+export function ScrollIntoView({ targetId }: { targetId: string }) {
+  useEffect(() => {
+    document
+      .getElementById(targetId)
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [targetId]);
+
+  return null;
+}
@@ -8,14 +8,16 @@ interface SearchInputProps {
   onSearch: (query: string) => void;
   isLoading?: boolean;
   placeholder?: string;
+  defaultValue?: string;
 }
 
 export function SearchInput({
   onSearch,
   isLoading,
   placeholder = "Search podcasts...",
+  defaultValue = "",
 }: SearchInputProps) {
-  const [query, setQuery] = useState("");
+  const [query, setQuery] = useState(defaultValue);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -2,13 +2,14 @@
 
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { Home, Library, Settings } from "lucide-react"
+import { Home, Library, MessageSquare, Settings } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { UserButton } from "@clerk/nextjs"
 
 const navItems = [
   { href: "/", icon: Home, label: "Discover" },
   { href: "/library", icon: Library, label: "Library" },
+  { href: "/chat", icon: MessageSquare, label: "Chat" },
 ]
 
 export function SidebarNav() {
@@ -24,7 +25,10 @@ export function SidebarNav() {
       {/* Nav Items */}
       <nav className="flex flex-col gap-1 flex-1">
         {navItems.map((item) => {
-          const isActive = pathname === item.href
+          const isActive =
+            item.href === "/"
+              ? pathname === "/"
+              : pathname.startsWith(item.href)
           return (
             <Link
               key={item.href}
@@ -1,7 +1,12 @@
 "use server";
 
 import { auth } from "@clerk/nextjs/server";
-import { searchPodcasts } from "@/lib/taddy";
+import { getPodcastDirectory } from "@/lib/podcast-directory";
+import { describeTaddyError } from "@/lib/taddy-errors";
+import {
+  searchFiltersSchema,
+  type PodcastSearchFilters,
+} from "@/lib/search-filters";
 
 export interface SearchResult {
   taddy_uuid: string;
@@ -14,12 +19,44 @@ export interface SearchResult {
   genres: string[];
 }
 
+export interface EpisodeSearchResult {
+  taddy_uuid: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  duration: number | null;
+  date_published: number | null; // epoch seconds
+  podcast: {
+    taddy_uuid: string;
+    name: string;
+    author: string | null;
+    image_url: string | null;
+  };
+}
+
+export interface SearchPagination {
+  searchId: string | null;
+  page: number;
+  hasMore: boolean;
+  total: number | null;
+}
+
 export type SearchPodcastsResult =
-  | { podcasts: SearchResult[]; error?: never }
-  | { podcasts?: never; error: string };
+  | { podcasts: SearchResult[]; pagination: SearchPagination; error?: never }
+  | { podcasts?: never; pagination?: never; error: string };
+
+export type SearchEpisodesResult =
+  | {
+      episodes: EpisodeSearchResult[];
+      pagination: SearchPagination;
+      error?: never;
+    }
+  | { episodes?: never; pagination?: never; error: string };
 
 export async function searchPodcastsAction(
   query: string,
+  filters: PodcastSearchFilters = {},
+  page: number = 1,
   limit: number = 20
 ): Promise<SearchPodcastsResult> {
   const { userId } = await auth();
@@ -32,11 +69,21 @@ export async function searchPodcastsAction(
     return { error: "Query is required" };
   }
 
+  const parsedFilters = searchFiltersSchema.safeParse(filters);
+
+  if (!parsedFilters.success) {
+    return { error: "Invalid search filters" };
+  }
+
   try {
-    const podcasts = await searchPodcasts(query, Math.min(limit, 50));
+    const result = await getPodcastDirectory().searchPodcasts(query, {
+      page: Math.max(1, Math.floor(page)),
+      limit: Math.min(limit, 50),
+      filters: parsedFilters.data,
+    });
 
     return {
-      podcasts: podcasts.map((p) => ({
+      podcasts: result.podcasts.map((p) => ({
         taddy_uuid: p.uuid,
         name: p.name,
         description: p.description,
@@ -46,9 +93,68 @@ export async function searchPodcastsAction(
         total_episodes: p.totalEpisodesCount,
         genres: p.genres || [],
       })),
+      pagination: {
+        searchId: result.searchId,
+        page: result.page,
+        hasMore: result.hasMore,
+        total: result.totalCount,
+      },
+    };
+  } catch (error) {
+    console.error("Taddy API error:", error);
+    return {
+      error: describeTaddyError(error)?.message ?? "Failed to search podcasts",
+    };
+  }
+}
+
+export async function searchEpisodesAction(
+  query: string,
+  page: number = 1,
+  limit: number = 20
+): Promise<SearchEpisodesResult> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  if (!query || query.trim().length === 0) {
+    return { error: "Query is required" };
+  }
+
+  try {
+    const result = await getPodcastDirectory().searchEpisodes(query, {
+      page: Math.max(1, Math.floor(page)),
+      limit: Math.min(limit, 50),
+    });
+
+    return {
+      episodes: result.episodes.map((e) => ({
+        taddy_uuid: e.uuid,
+        name: e.name,
+        description: e.description,
+        image_url: e.imageUrl,
+        duration: e.duration,
+        date_published: e.datePublished,
+        podcast: {
+          taddy_uuid: e.podcast.uuid,
+          name: e.podcast.name,
+          author: e.podcast.authorName,
+          image_url: e.podcast.imageUrl,
+        },
+      })),
+      pagination: {
+        searchId: result.searchId,
+        page: result.page,
+        hasMore: result.hasMore,
+        total: result.totalCount,
+      },
     };
   } catch (error) {
     console.error("Taddy API error:", error);
-    return { error: "Failed to search podcasts" };
+    return {
+      error: describeTaddyError(error)?.message ?? "Failed to search episodes",
+    };
   }
 }
@@ -0,0 +1,298 @@
+import { z } from "zod";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import type { ChatScope } from "@/lib/chat";
+import type { ChatUIMessage, Citation } from "@/lib/citations";
+
+/** A saved conversation. */
+export interface ChatSession {
+  id: string;
+  title: string | null;
+  context_podcast_ids: string[] | null;
+  context_episode_ids: string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A message to save, in the shape the chat route produces. */
+export interface ChatMessageInput {
+  role: "user" | "assistant";
+  parts: ChatUIMessage["parts"];
+  /** Citations the answer refers to. */
+  citations?: Citation[];
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * Body of PATCH /api/chat/sessions/[id]: the podcasts and episodes the
+ * chat draws on. Empty lists mean every synced episode.
+ */
+export const chatContextSchema = z.object({
+  podcastIds: z.array(z.uuid()).max(200),
+  episodeIds: z.array(z.uuid()).max(1000),
+});
+
+/**
+ * A database read or write failed. The message is safe to show to users.
+ */
+export class ChatSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatSessionError";
+  }
+}
+
+const SESSION_COLUMNS =
+  "id, title, context_podcast_ids, context_episode_ids, created_at, updated_at";
+
+// Ids that are not UUIDs can't match a session, and Postgres rejects them
+// rather than finding nothing
+function isSessionId(id: string): boolean {
+  return z.uuid().safeParse(id).success;
+}
+
+// Escape `%`, `_` and `*` (PostgREST's alias for `%`) so a search matches
+// them literally
+function likeLiteral(text: string): string {
+  return text.replace(/[\\%_*]/g, "\\$&");
+}
+
+/**
+ * Plain text of a message's text parts, stored for search and titles.
+ */
+export function messageText(parts: ChatUIMessage["parts"]): string {
+  return parts
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * List the current user's chat sessions, most recently active first.
+ * `search` matches session titles and message text.
+ */
+export async function listChatSessions(
+  search?: string,
+): Promise<ChatSession[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from("chat_sessions")
+    .select(SESSION_COLUMNS)
+    .order("updated_at", { ascending: false })
+    .limit(100);
+
+  if (search) {
+    const keyword = likeLiteral(search);
+
+    const { data: matches, error: searchError } = await supabase
+      .from("chat_messages")
+      .select("session_id")
+      .ilike("content", `%${keyword}%`)
+      .limit(500);
+
+    if (searchError) {
+      console.error("Error searching chat messages:", searchError);
+      throw new ChatSessionError("Failed to search chats");
+    }
+
+    // Quoted so commas and parentheses cannot break the `or` filter syntax,
+    // which takes backslashes and quotes escaped
+    const pattern = `"%${keyword.replace(/["\\]/g, "\\$&")}%"`;
+    const ids = [...new Set(matches.map((m) => m.session_id))];
+    query = query.or(
+      ids.length > 0
+        ? `title.ilike.${pattern},id.in.(${ids.join(",")})`
+        : `title.ilike.${pattern}`,
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching chat sessions:", error);
+    throw new ChatSessionError("Failed to fetch chats");
+  }
+
+  return data;
+}
+
+/**
+ * Get one of the current user's chat sessions, or null if it does not
+ * exist or belongs to someone else.
+ */
+export async function getChatSession(
+  sessionId: string,
+): Promise<ChatSession | null> {
+  if (!isSessionId(sessionId)) {
+    return null;
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching chat session:", error);
+    throw new ChatSessionError("Failed to fetch chat");
+  }
+
+  return data;
+}
+
+/**
+ * Start a new, untitled chat session for a user.
+ */
+export async function createChatSession(
+  userProfileId: string,
+): Promise<ChatSession> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .insert({ user_id: userProfileId })
+    .select(SESSION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Error creating chat session:", error);
+    throw new ChatSessionError("Failed to create chat");
+  }
+
+  return data;
+}
+
+/**
+ * Delete one of the current user's chat sessions and its messages.
+ * Returns false if there was no such session.
+ */
+export async function deleteChatSession(sessionId: string): Promise<boolean> {
+  if (!isSessionId(sessionId)) {
+    return false;
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .delete()
+    .eq("id", sessionId)
+    .select("id");
+
+  if (error) {
+    console.error("Error deleting chat session:", error);
+    throw new ChatSessionError("Failed to delete chat");
+  }
+
+  return data.length > 0;
+}
+
+/**
+ * The scope retrieval is limited to for a session.
+ */
+export function chatSessionScope(session: ChatSession): ChatScope {
+  return {
+    podcastIds: session.context_podcast_ids ?? [],
+    episodeIds: session.context_episode_ids ?? [],
+  };
+}
+
+/**
+ * Replace the podcasts and episodes one of the current user's chats draws
+ * on. Returns the updated session, or null if there was no such session.
+ */
+export async function updateChatContext(
+  sessionId: string,
+  scope: ChatScope,
+): Promise<ChatSession | null> {
+  if (!isSessionId(sessionId)) {
+    return null;
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .update({
+      context_podcast_ids: [...new Set(scope.podcastIds)],
+      context_episode_ids: [...new Set(scope.episodeIds)],
+    })
+    .eq("id", sessionId)
+    .select(SESSION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating chat context:", error);
+    throw new ChatSessionError("Failed to update chat context");
+  }
+
+  return data;
+}
+
+/**
+ * Load a session's messages as UI messages, oldest first, for useChat to
+ * resume from.
+ */
+export async function getChatMessages(
+  sessionId: string,
+): Promise<ChatUIMessage[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("id, role, parts")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching chat messages:", error);
+    throw new ChatSessionError("Failed to fetch messages");
+  }
+
+  return data.map((row) => ({
+    id: row.id,
+    role: row.role,
+    parts: row.parts,
+  }));
+}
+
+function messageRow(message: ChatMessageInput) {
+  return {
+    role: message.role,
+    content: messageText(message.parts),
+    parts: message.parts,
+    citations: message.citations ?? null,
+    model: message.model ?? null,
+    input_tokens: message.inputTokens ?? null,
+    output_tokens: message.outputTokens ?? null,
+  };
+}
+
+/**
+ * Save a question and its answer to a session in one transaction.
+ *
+ * Runs after the answer has streamed, outside the request's auth context,
+ * so it uses the admin client. Callers must have checked that the session
+ * belongs to the user.
+ */
+export async function appendChatExchange(
+  sessionId: string,
+  question: ChatMessageInput,
+  answer: ChatMessageInput,
+): Promise<void> {
+  const { error } = await createAdminClient().rpc("append_chat_exchange", {
+    p_session_id: sessionId,
+    p_user_message: messageRow(question),
+    p_assistant_message: messageRow(answer),
+  });
+
+  if (error) {
+    console.error("Error saving chat messages:", error);
+    throw new ChatSessionError("Failed to save messages");
+  }
+}
@@ -0,0 +1,252 @@
+import type { UIMessage } from "ai";
+import { createClient } from "@/lib/supabase/server";
+import { embedTexts } from "@/lib/embeddings";
+import { formatTimestamp } from "@/lib/format";
+import type { Citation } from "@/lib/citations";
+import { queryTranscriptChunks, type RetrievedChunk } from "@/lib/vector-store";
+
+/** OpenAI model that answers chat questions. */
+export const CHAT_MODEL = process.env.CHAT_MODEL ?? "gpt-4o-mini";
+
+// Transcript chunks retrieved per question
+const RETRIEVAL_LIMIT = 8;
+
+/**
+ * A chat request could not be served. The message is safe to show to
+ * users.
+ */
+export class ChatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatError";
+  }
+}
+
+/**
+ * What a chat draws on: whole podcasts (podcasts.id) and single episodes
+ * (episodes.id). Empty means every synced episode.
+ */
+export interface ChatScope {
+  podcastIds: string[];
+  episodeIds: string[];
+}
+
+/** Podcasts and synced episodes a user can pick as a chat's context. */
+export interface ChatContextOptions {
+  podcasts: { id: string; name: string; image_url: string | null }[];
+  episodes: {
+    id: string;
+    name: string;
+    podcast_id: string;
+    podcast_name: string;
+  }[];
+}
+
+/**
+ * Taddy UUIDs of the episodes the current user has synced whose
+ * transcripts are ready to search, narrowed to `scope` if it picks any
+ * podcasts or episodes.
+ */
+export async function getSearchableEpisodeUuids(
+  scope?: ChatScope,
+): Promise<string[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("user_synced_episodes")
+    .select(
+      "episode:episodes!inner(id, podcast_id, taddy_uuid, transcripts!inner(status))",
+    )
+    .eq("episode.transcripts.status", "synced")
+    .overrideTypes<
+      { episode: { id: string; podcast_id: string; taddy_uuid: string } }[],
+      { merge: false }
+    >();
+
+  if (error) {
+    console.error("Error fetching synced episodes:", error);
+    throw new ChatError("Failed to load your synced episodes");
+  }
+
+  const episodes = data.map((row) => row.episode);
+
+  const scoped =
+    scope && (scope.podcastIds.length > 0 || scope.episodeIds.length > 0)
+      ? episodes.filter(
+          (e) =>
+            scope.podcastIds.includes(e.podcast_id) ||
+            scope.episodeIds.includes(e.id),
+        )
+      : episodes;
+
+  return scoped.map((e) => e.taddy_uuid);
+}
+
+/**
+ * The current user's library podcasts and synced episodes, for the chat
+ * context picker. Episodes whose transcripts are not ready yet are left
+ * out, since picking them would find nothing.
+ */
+export async function getChatContextOptions(): Promise<ChatContextOptions> {
+  const supabase = await createClient();
+
+  const [library, synced] = await Promise.all([
+    supabase
+      .from("user_podcasts")
+      .select("podcast:podcasts(id, name, image_url)")
+      .order("added_at", { ascending: false })
+      .overrideTypes<
+        { podcast: ChatContextOptions["podcasts"][number] }[],
+        { merge: false }
+      >(),
+    supabase
+      .from("user_synced_episodes")
+      .select(
+        "episode:episodes!inner(id, name, podcast_id, podcast:podcasts(name), transcripts!inner(status))",
+      )
+      .eq("episode.transcripts.status", "synced")
+      .order("synced_at", { ascending: false })
+      .overrideTypes<
+        {
+          episode: {
+            id: string;
+            name: string;
+            podcast_id: string;
+            podcast: { name: string };
+          };
+        }[],
+        { merge: false }
+      >(),
+  ]);
+
+  if (library.error || synced.error) {
+    console.error(
+      "Error fetching chat context options:",
+      library.error ?? synced.error,
+    );
+    throw new ChatError("Failed to load your podcasts and episodes");
+  }
+
+  return {
+    podcasts: library.data.map((row) => row.podcast),
+    episodes: synced.data.map(({ episode }) => ({
+      id: episode.id,
+      name: episode.name,
+      podcast_id: episode.podcast_id,
+      podcast_name: episode.podcast.name,
+    })),
+  };
+}
+
+/**
+ * The text of the latest user message, which is what gets searched.
+ */
+export function latestQuestion(messages: UIMessage[]): string {
+  const message = messages.findLast((m) => m.role === "user");
+
+  return (
+    message?.parts
+      .flatMap((part) => (part.type === "text" ? [part.text] : []))
+      .join("\n")
+      .trim() ?? ""
+  );
+}
+
+/**
+ * Find the transcript chunks most relevant to a question among the given
+ * episodes.
+ */
+export async function retrieveChunks(
+  question: string,
+  episodeUuids: string[],
+): Promise<RetrievedChunk[]> {
+  if (!question || episodeUuids.length === 0) {
+    return [];
+  }
+
+  const [embedding] = await embedTexts([question]);
+  return queryTranscriptChunks(embedding, episodeUuids, RETRIEVAL_LIMIT);
+}
+
+/**
+ * Structured citations for the retrieved chunks, numbered as in the
+ * system prompt.
+ */
+export async function buildCitations(
+  chunks: RetrievedChunk[],
+): Promise<Citation[]> {
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  const supabase = await createClient();
+  const podcastUuids = [...new Set(chunks.map((c) => c.metadata.podcast_uuid))];
+
+  const { data: podcasts, error } = await supabase
+    .from("podcasts")
+    .select("id, taddy_uuid")
+    .in("taddy_uuid", podcastUuids);
+
+  if (error) {
+    console.error("Error fetching cited podcasts:", error);
+    throw new ChatError("Failed to load cited podcasts");
+  }
+
+  const podcastIds = new Map(podcasts.map((p) => [p.taddy_uuid, p.id]));
+
+  return chunks.map((chunk, i) => ({
+    index: i + 1,
+    podcastId: podcastIds.get(chunk.metadata.podcast_uuid) ?? null,
+    podcastName: chunk.metadata.podcast_name,
+    episodeUuid: chunk.metadata.episode_uuid,
+    episodeName: chunk.metadata.episode_name,
+    startTime: chunk.metadata.start_time,
+    endTime: chunk.metadata.end_time,
+    speaker: chunk.metadata.speaker,
+    text: chunk.text,
+  }));
+}
+
+function describeChunk(chunk: RetrievedChunk): string {
+  const { podcast_name, episode_name, start_time, end_time, speaker } =
+    chunk.metadata;
+
+  const time =
+    start_time !== null
+      ? `, ${formatTimestamp(start_time)}${
+          end_time !== null ? `–${formatTimestamp(end_time)}` : ""
+        }`
+      : "";
+  const speakers = speaker ? `, ${speaker}` : "";
+
+  return `${podcast_name} — "${episode_name}"${time}${speakers}`;
+}
+
+/**
+ * System prompt that grounds the answer in the retrieved chunks, numbered
+ * so the answer can cite them.
+ */
+export function buildSystemPrompt(chunks: RetrievedChunk[]): string {
+  const instructions = `You are Podcast Chat. You answer questions about podcast episodes using only the transcript excerpts provided below.
+
+- Base every claim on the excerpts. If they do not contain the answer, say so plainly instead of guessing.
+- Cite the excerpts you use by their number in square brackets, e.g. [2] or [1][3].
+- Quote short phrases exactly when it helps; never invent quotes.
+- Answer in Markdown.`;
+
+  if (chunks.length === 0) {
+    return `${instructions}
+
+No transcript excerpts are available for this question. Either the user has not synced any episodes yet, the podcasts and episodes chosen as this chat's context have none synced, or none of them are relevant. Tell them so, and suggest syncing episodes from a podcast's page.`;
+  }
+
+  const excerpts = chunks
+    .map((chunk, i) => `[${i + 1}] ${describeChunk(chunk)}\n${chunk.text}`)
+    .join("\n\n");
+
+  return `${instructions}
+
+Transcript excerpts:
+
+${excerpts}`;
+}
@@ -0,0 +1,185 @@
+import { generateText, Output } from "ai";
+import { openai } from "@ai-sdk/openai";
+import {
+  citedIndexes,
+  type Citation,
+  type CitationStatus,
+} from "@/lib/citations";
+
+// Share of a claim's content words found in the cited excerpt
+const SUPPORTED_OVERLAP = 0.5;
+const WEAK_OVERLAP = 0.25;
+
+// OpenAI model that double-checks claims the word overlap could not
+// confirm. Unset to check by word overlap alone.
+const JUDGE_MODEL = process.env.CITATION_JUDGE_MODEL;
+
+// Common words that say nothing about whether an excerpt supports a claim
+const STOPWORDS = new Set(
+  (
+    "the and for are but not you all any can had her was one our out has " +
+    "him his how its may new now see who did get let put say she too use " +
+    "that this with from they will would there their what about which when " +
+    "were been have more some than them then these into also just like very " +
+    "such only over most other could should does said says because while " +
+    "where being those through after before between both each many much " +
+    "episode podcast host guest talks talked discusses discussed mentions " +
+    "mentioned explains explained according"
+  ).split(" "),
+);
+
+/** A sentence of an answer and the citations it refers to. */
+interface Claim {
+  text: string;
+  indexes: number[];
+}
+
+/**
+ * Split an answer into sentences and list items, keeping only those that
+ * cite something. A marker after the full stop (`... claim. [2]`) belongs
+ * to the sentence before it.
+ */
+function citedClaims(answer: string): Claim[] {
+  const sentences = answer
+    .split("\n")
+    .flatMap((line) => line.split(/(?<=[.!?])\s+/))
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const claims: Claim[] = [];
+  for (const sentence of sentences) {
+    const indexes = citedIndexes(sentence);
+    const text = sentence.replace(/\[\d+\]/g, "").trim();
+
+    if (!/[a-z0-9]/i.test(text) && claims.length > 0) {
+      const previous = claims[claims.length - 1];
+      previous.indexes = [...new Set([...previous.indexes, ...indexes])];
+    } else {
+      claims.push({ text, indexes });
+    }
+  }
+
+  return claims.filter((claim) => claim.indexes.length > 0);
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) ?? [])
+      .map((word) => word.replace(/'s$/, ""))
+      .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+      // Plurals count as the same word
+      .map((word) => (word.length > 3 ? word.replace(/s$/, "") : word)),
+  );
+}
+
+/**
+ * Share of the claim's content words that appear in the excerpt. A claim
+ * with no content words, e.g. "See [2].", has nothing to contradict.
+ */
+function overlap(claim: string, excerpt: string): number {
+  const claimWords = contentWords(claim);
+  if (claimWords.size === 0) {
+    return 1;
+  }
+
+  const excerptWords = contentWords(excerpt);
+  let found = 0;
+  for (const word of claimWords) {
+    if (excerptWords.has(word)) found++;
+  }
+
+  return found / claimWords.size;
+}
+
+function statusFromOverlap(score: number): CitationStatus {
+  if (score >= SUPPORTED_OVERLAP) return "supported";
+  if (score >= WEAK_OVERLAP) return "weak";
+  return "unsupported";
+}
+
+// Worst first
+const STATUS_ORDER: CitationStatus[] = ["unsupported", "weak", "supported"];
+
+async function judge(
+  model: string,
+  claim: string,
+  excerpt: string,
+): Promise<CitationStatus> {
+  const { output } = await generateText({
+    model: openai(model),
+    output: Output.choice({ options: STATUS_ORDER }),
+    prompt: `Does the podcast transcript excerpt support the claim?
+
+Answer "supported" if the excerpt states or clearly implies the claim, "weak" if it supports only part of the claim or only loosely, and "unsupported" if it does not support the claim or contradicts it.
+
+Excerpt:
+${excerpt}
+
+Claim:
+${claim}`,
+  });
+
+  return output;
+}
+
+/**
+ * Check every cited sentence of an answer against the excerpts it cites,
+ * by word overlap and, when CITATION_JUDGE_MODEL is set, by asking a
+ * model about the claims the overlap does not confirm. Returns the
+ * citations with `verification` set on those the answer cites; a citation
+ * used for several claims gets the worst result.
+ *
+ * Never throws: if the model judge fails, the word overlap result stands.
+ */
+export async function verifyCitations(
+  answer: string,
+  citations: Citation[],
+): Promise<Citation[]> {
+  const byIndex = new Map(citations.map((c) => [c.index, c]));
+
+  const checks = citedClaims(answer).flatMap((claim) =>
+    claim.indexes.flatMap((index) => {
+      const citation = byIndex.get(index);
+      return citation ? [{ claim: claim.text, citation }] : [];
+    }),
+  );
+
+  const results = await Promise.all(
+    checks.map(async ({ claim, citation }) => {
+      const score = overlap(claim, citation.text);
+      let status = statusFromOverlap(score);
+      let judged = false;
+
+      if (JUDGE_MODEL && status !== "supported") {
+        try {
+          status = await judge(JUDGE_MODEL, claim, citation.text);
+          judged = true;
+        } catch (error) {
+          console.error("Citation judge error:", error);
+        }
+      }
+
+      return { index: citation.index, status, score, judged };
+    }),
+  );
+
+  return citations.map((citation) => {
+    const own = results.filter((r) => r.index === citation.index);
+    if (own.length === 0) {
+      return citation;
+    }
+
+    const worst = own.reduce((a, b) =>
+      STATUS_ORDER.indexOf(b.status) < STATUS_ORDER.indexOf(a.status) ? b : a,
+    );
+
+    return {
+      ...citation,
+      verification: {
+        status: worst.status,
+        overlap: Math.round(Math.min(...own.map((r) => r.score)) * 100) / 100,
+        judged: own.some((r) => r.judged),
+      },
+    };
+  });
+}
@@ -0,0 +1,106 @@
+import type { UIMessage } from "ai";
+
+/**
+ * Whether a cited excerpt backs up the sentences citing it: "supported"
+ * when it says what is claimed, "weak" when it only partly does, and
+ * "unsupported" when it does not.
+ */
+export type CitationStatus = "supported" | "weak" | "unsupported";
+
+/** Result of checking a citation after the answer was generated. */
+export interface CitationVerification {
+  status: CitationStatus;
+  /** Lowest share, 0–1, of a citing sentence's words found in the excerpt. */
+  overlap: number;
+  /** Whether a model judged it, rather than word overlap alone. */
+  judged: boolean;
+}
+
+/**
+ * A transcript excerpt an answer was grounded in. Answers refer to it
+ * inline as `[index]`. Times are in seconds.
+ */
+export interface Citation {
+  /** The number the answer cites it by, e.g. 2 for `[2]`. */
+  index: number;
+  /** podcasts.id, for linking. Null if the podcast is no longer stored. */
+  podcastId: string | null;
+  podcastName: string;
+  episodeUuid: string;
+  episodeName: string;
+  startTime: number | null;
+  endTime: number | null;
+  speaker: string | null;
+  /** The quoted transcript text. */
+  text: string;
+  /** Set on cited excerpts once the answer has been checked. */
+  verification?: CitationVerification;
+}
+
+/**
+ * Chat messages as streamed and stored. Assistant messages carry the
+ * excerpts they could cite in a `data-citations` part, sent before the
+ * answer text and sent again with `verification` once it is checked.
+ */
+export type ChatUIMessage = UIMessage<never, { citations: Citation[] }>;
+
+// `[2]`, but not a Markdown link such as `[2](...)`
+const CITATION_MARKER = /\[(\d+)\](?!\()/g;
+
+/**
+ * The citation numbers an answer's text refers to, in order of first use.
+ */
+export function citedIndexes(text: string): number[] {
+  return [
+    ...new Set(Array.from(text.matchAll(CITATION_MARKER), (m) => Number(m[1]))),
+  ];
+}
+
+/**
+ * Turn the `[n]` markers that match a citation into `#cite-n` Markdown
+ * links, so the renderer can swap them for citation chips.
+ */
+export function linkCitationMarkers(
+  text: string,
+  citations: Citation[],
+): string {
+  const known = new Set(citations.map((c) => c.index));
+
+  return text.replace(CITATION_MARKER, (marker, n) =>
+    known.has(Number(n)) ? `[${n}](#cite-${n})` : marker,
+  );
+}
+
+/**
+ * The citations in an assistant message's `data-citations` part.
+ */
+export function messageCitations(message: ChatUIMessage): Citation[] {
+  return message.parts.flatMap((part) =>
+    part.type === "data-citations" ? part.data : [],
+  );
+}
+
+/**
+ * Citations in a message that the verifier found do not support what the
+ * answer says.
+ */
+export function unsupportedCitations(message: ChatUIMessage): Citation[] {
+  return messageCitations(message).filter(
+    (c) => c.verification?.status === "unsupported",
+  );
+}
+
+/**
+ * Link to the cited episode, opened at the start of the excerpt. Null when
+ * the podcast is not stored.
+ */
+export function citationHref(citation: Citation): string | null {
+  if (!citation.podcastId) {
+    return null;
+  }
+
+  const href = `/podcasts/${citation.podcastId}/episodes/${encodeURIComponent(citation.episodeUuid)}`;
+  return citation.startTime !== null
+    ? `${href}?t=${Math.floor(citation.startTime)}`
+    : href;
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import type { TaddyTranscriptItem } from "@/lib/taddy";
+import {
+  TranscriptionError,
+  type TranscriptionProvider,
+} from "@/lib/transcription";
+
+const DEEPGRAM_API_URL = "https://api.deepgram.com/v1/listen";
+
+// Deepgram fetches the audio itself; long episodes take a few minutes
+const REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+const deepgramResponseSchema = z.object({
+  results: z.object({
+    utterances: z
+      .array(
+        z.object({
+          start: z.number(),
+          end: z.number(),
+          transcript: z.string(),
+          speaker: z.number().optional(),
+        }),
+      )
+      .optional(),
+  }),
+});
+
+/**
+ * Transcribe an episode with Deepgram's pre-recorded audio API. Speakers
+ * are diarized and labelled "Speaker 1", "Speaker 2" and so on.
+ */
+async function transcribe(audioUrl: string): Promise<TaddyTranscriptItem[]> {
+  const apiKey = process.env.DEEPGRAM_API_KEY;
+
+  if (!apiKey) {
+    throw new TranscriptionError("Transcription is not configured");
+  }
+
+  const params = new URLSearchParams({
+    model: "nova-3",
+    smart_format: "true",
+    diarize: "true",
+    utterances: "true",
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(`${DEEPGRAM_API_URL}?${params}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Token ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ url: audioUrl }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    console.error("Deepgram request error:", error);
+    throw new TranscriptionError("Transcription service is unavailable", {
+      cause: error,
+    });
+  }
+
+  if (!response.ok) {
+    console.error(
+      "Deepgram error:",
+      response.status,
+      await response.text().catch(() => ""),
+    );
+    throw new TranscriptionError(
+      response.status === 400
+        ? "The episode audio could not be transcribed"
+        : "Transcription service request failed",
+    );
+  }
+
+  const result = deepgramResponseSchema.safeParse(await response.json());
+
+  if (!result.success) {
+    console.error("Unexpected Deepgram response:", result.error.issues);
+    throw new TranscriptionError("Transcription service request failed");
+  }
+
+  return (result.data.results.utterances ?? []).map((utterance) => ({
+    text: utterance.transcript,
+    startTime: utterance.start,
+    endTime: utterance.end,
+    speaker:
+      utterance.speaker !== undefined
+        ? `Speaker ${utterance.speaker + 1}`
+        : null,
+  }));
+}
+
+/**
+ * Deepgram as a TranscriptionProvider.
+ */
+export const deepgramProvider: TranscriptionProvider = {
+  name: "deepgram",
+  transcribe,
+};
@@ -0,0 +1,131 @@
+import { embedMany } from "ai";
+import { openai } from "@ai-sdk/openai";
+
+/**
+ * Turns text into vectors for the transcript collection. Every vector in
+ * a collection must come from the same model, so the vector store records
+ * `model` and `dimensions` on the collection and refuses to mix them.
+ */
+export interface EmbeddingProvider {
+  /** Model identifier stored with the collection. */
+  model: string;
+  /** Length of every vector the model produces. */
+  dimensions: number;
+  /** Embed a batch of texts. Returns one vector per text, in order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embedding failed, or the configured model does not match the one an
+ * index was built with. The message is safe to show to users.
+ */
+export class EmbeddingError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "EmbeddingError";
+  }
+}
+
+const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/**
+ * OpenAI embeddings, as assumed by the PRD. Needs OPENAI_API_KEY.
+ */
+export const openAIEmbeddingProvider: EmbeddingProvider = {
+  model: `openai/${OPENAI_EMBEDDING_MODEL}`,
+  dimensions: 1536,
+  async embed(texts) {
+    const { embeddings } = await embedMany({
+      model: openai.embedding(OPENAI_EMBEDDING_MODEL),
+      values: texts,
+    });
+    return embeddings;
+  },
+};
+
+/**
+ * Embeddings computed in-process with Chroma's bundled default embedder
+ * (all-MiniLM-L6-v2 via transformers.js). The model is downloaded once and
+ * cached; after that no network access is needed.
+ */
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  // Loaded on first use, since it pulls in transformers.js and the model
+  let embedder: Promise<{ generate(texts: string[]): Promise<number[][]> }>;
+
+  return {
+    model: "chroma/all-MiniLM-L6-v2",
+    dimensions: 384,
+    async embed(texts) {
+      embedder ??= import("@chroma-core/default-embed").then(
+        ({ DefaultEmbeddingFunction }) => new DefaultEmbeddingFunction(),
+      );
+      return (await embedder).generate(texts);
+    },
+  };
+}
+
+let provider: EmbeddingProvider | undefined;
+
+/**
+ * Get the configured embedding provider.
+ *
+ * Set EMBEDDING_PROVIDER to "openai" or "local". Defaults to OpenAI when
+ * OPENAI_API_KEY is set, otherwise local.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const configured =
+    process.env.EMBEDDING_PROVIDER ??
+    (process.env.OPENAI_API_KEY ? "openai" : "local");
+
+  switch (configured) {
+    case "openai":
+      provider = openAIEmbeddingProvider;
+      break;
+    case "local":
+      provider = createLocalEmbeddingProvider();
+      break;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${configured}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Embed a batch of texts with the configured provider, checking that
+ * every vector has the provider's dimension.
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+
+  const embedder = getEmbeddingProvider();
+
+  let embeddings: number[][];
+  try {
+    embeddings = await embedder.embed(texts);
+  } catch (error) {
+    console.error("Embedding error:", error);
+    throw new EmbeddingError("Failed to embed text", { cause: error });
+  }
+
+  if (embeddings.length !== texts.length) {
+    throw new EmbeddingError(
+      `${embedder.model} returned ${embeddings.length} embeddings for ${texts.length} texts`,
+    );
+  }
+
+  const wrong = embeddings.find((e) => e.length !== embedder.dimensions);
+  if (wrong) {
+    throw new EmbeddingError(
+      `${embedder.model} returned ${wrong.length} dimensions, expected ${embedder.dimensions}`,
+    );
+  }
+
+  return embeddings;
+}
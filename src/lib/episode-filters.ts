@@ -0,0 +1,127 @@
+import type { TaddyEpisode } from "@/lib/taddy";
+
+export type EpisodeSort = "newest" | "oldest";
+
+export interface EpisodeFilters {
+  sort?: EpisodeSort;
+  season?: number;
+  /** Duration range, in minutes. */
+  minDuration?: number;
+  maxDuration?: number;
+  played?: "played" | "unplayed";
+  /** Keyword matched against episode titles and descriptions. */
+  q?: string;
+}
+
+/**
+ * Whether any filter that narrows the episode list is set. Sort order
+ * alone does not count.
+ */
+export function hasEpisodeFilters(filters: EpisodeFilters): boolean {
+  return (
+    filters.season !== undefined ||
+    filters.minDuration !== undefined ||
+    filters.maxDuration !== undefined ||
+    filters.played !== undefined ||
+    filters.q !== undefined
+  );
+}
+
+function positiveInt(value: string | null): number | undefined {
+  const n = Number(value);
+  return value && Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Read the page number and episode filters from podcast page search
+ * params, ignoring invalid values.
+ *
+ *   ?sort=oldest&season=2&minDuration=30&maxDuration=60&played=unplayed&q=interview&page=2
+ */
+export function parseEpisodeFilters(params: URLSearchParams): {
+  page: number;
+  filters: EpisodeFilters;
+} {
+  const season = Number(params.get("season"));
+  const minDuration = positiveInt(params.get("minDuration"));
+  const maxDuration = positiveInt(params.get("maxDuration"));
+  const played = params.get("played");
+  const q = params.get("q")?.trim().slice(0, 200);
+
+  return {
+    page: positiveInt(params.get("page")) ?? 1,
+    filters: {
+      ...(params.get("sort") === "oldest" ? { sort: "oldest" as const } : {}),
+      ...(params.get("season") && Number.isInteger(season) && season >= 0
+        ? { season }
+        : {}),
+      ...(minDuration ? { minDuration } : {}),
+      ...(maxDuration ? { maxDuration } : {}),
+      ...(played === "played" || played === "unplayed" ? { played } : {}),
+      ...(q ? { q } : {}),
+    },
+  };
+}
+
+/**
+ * Encode episode filters and a page number as podcast page search params.
+ */
+export function toEpisodeSearchParams(
+  filters: EpisodeFilters,
+  page: number = 1,
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.sort && filters.sort !== "newest") {
+    params.set("sort", filters.sort);
+  }
+  if (filters.season !== undefined) {
+    params.set("season", String(filters.season));
+  }
+  if (filters.minDuration) {
+    params.set("minDuration", String(filters.minDuration));
+  }
+  if (filters.maxDuration) {
+    params.set("maxDuration", String(filters.maxDuration));
+  }
+  if (filters.played) params.set("played", filters.played);
+  if (filters.q) params.set("q", filters.q);
+  if (page > 1) params.set("page", String(page));
+
+  return params;
+}
+
+/**
+ * Filter and sort an in-memory episode list, for sources that cannot
+ * filter server-side (e.g. RSS feeds). `playedUuids` are the episodes the
+ * user has finished.
+ */
+export function applyEpisodeFilters(
+  episodes: TaddyEpisode[],
+  filters: EpisodeFilters,
+  playedUuids: Set<string>,
+): TaddyEpisode[] {
+  const needle = filters.q?.toLowerCase();
+
+  const matches = episodes.filter((episode) => {
+    const minutes = (episode.duration ?? 0) / 60;
+
+    return (
+      (filters.season === undefined ||
+        episode.seasonNumber === filters.season) &&
+      (!filters.minDuration || minutes >= filters.minDuration) &&
+      (!filters.maxDuration || minutes <= filters.maxDuration) &&
+      (!filters.played ||
+        playedUuids.has(episode.uuid) === (filters.played === "played")) &&
+      (!needle ||
+        [episode.name, episode.description].some((field) =>
+          field?.toLowerCase().includes(needle),
+        ))
+    );
+  });
+
+  const direction = filters.sort === "oldest" ? 1 : -1;
+  return matches.sort(
+    (a, b) => direction * ((a.datePublished ?? 0) - (b.datePublished ?? 0)),
+  );
+}
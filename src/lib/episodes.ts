@@ -0,0 +1,493 @@
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { getPodcastDirectory } from "@/lib/podcast-directory";
+import { hasEpisodeFilters, type EpisodeFilters } from "@/lib/episode-filters";
+import type { TaddyEpisode } from "@/lib/taddy";
+import { TaddyEpisodeNotFoundError } from "@/lib/taddy-errors";
+
+// Page size used when pulling episodes from the directory into the registry
+const REFRESH_PAGE_SIZE = 50;
+// Cap on pages fetched in one refresh, so the first refresh of a podcast
+// with thousands of episodes stays bounded. Older pages are filled in on
+// demand by getPodcastEpisodes.
+const MAX_REFRESH_PAGES = 4;
+// Cap on pages fetched when storing a podcast's whole back catalog. 1,000
+// episodes, which is also the most rows Supabase returns by default.
+const MAX_CATALOG_PAGES = 20;
+// How long stored episodes are trusted before checking for new ones
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+/** A row of the shared `episodes` registry. */
+export interface EpisodeRow {
+  id: string;
+  podcast_id: string;
+  taddy_uuid: string;
+  guid: string | null;
+  name: string;
+  description: string | null;
+  audio_url: string | null;
+  image_url: string | null;
+  duration: number | null;
+  published_at: string | null;
+  episode_number: number | null;
+  season_number: number | null;
+  created_at: string;
+}
+
+/** The podcast fields needed to read and refresh its episodes. */
+export interface RegistryPodcast {
+  id: string;
+  taddy_uuid: string;
+  episodes_refreshed_at: string | null;
+  /** Set once the whole back catalog is in the registry. */
+  catalog_stored_at: string | null;
+  /** How many of the newest episodes the registry holds without gaps. */
+  newest_stored_count: number;
+}
+
+/** How much of a podcast's episode list the registry can be trusted for. */
+type RegistryCoverage = Pick<
+  RegistryPodcast,
+  "catalog_stored_at" | "newest_stored_count"
+>;
+
+function episodeRow(podcastId: string, episode: TaddyEpisode) {
+  return {
+    podcast_id: podcastId,
+    taddy_uuid: episode.uuid,
+    guid: episode.guid,
+    name: episode.name,
+    description: episode.description,
+    audio_url: episode.audioUrl,
+    image_url: episode.imageUrl,
+    duration: episode.duration,
+    published_at: episode.datePublished
+      ? new Date(episode.datePublished * 1000).toISOString()
+      : null,
+    episode_number: episode.episodeNumber,
+    season_number: episode.seasonNumber,
+  };
+}
+
+/**
+ * Convert a registry row back to the directory's episode shape, so pages
+ * can render stored and live episodes the same way.
+ */
+export function toTaddyEpisode(row: EpisodeRow): TaddyEpisode {
+  return {
+    uuid: row.taddy_uuid,
+    name: row.name,
+    description: row.description,
+    audioUrl: row.audio_url,
+    imageUrl: row.image_url,
+    duration: row.duration,
+    datePublished: row.published_at
+      ? Math.floor(Date.parse(row.published_at) / 1000)
+      : null,
+    seasonNumber: row.season_number,
+    episodeNumber: row.episode_number,
+    guid: row.guid,
+  };
+}
+
+/**
+ * Insert or update episodes in the registry, keyed by Taddy UUID.
+ */
+export async function upsertEpisodes(
+  podcastId: string,
+  episodes: TaddyEpisode[],
+): Promise<void> {
+  if (episodes.length === 0) {
+    return;
+  }
+
+  const { error } = await createAdminClient()
+    .from("episodes")
+    .upsert(
+      episodes.map((episode) => episodeRow(podcastId, episode)),
+      { onConflict: "taddy_uuid" },
+    );
+
+  if (error) {
+    console.error("Error storing episodes:", error);
+    throw new Error("Failed to store episodes");
+  }
+}
+
+/**
+ * Fetch episodes newer than the stored ones and add them to the
+ * registry. A podcast with no stored episodes gets its latest
+ * MAX_REFRESH_PAGES pages. Returns the registry's updated coverage.
+ */
+export async function refreshEpisodes(
+  podcast: Pick<RegistryPodcast, "id" | "taddy_uuid"> & RegistryCoverage,
+): Promise<RegistryCoverage> {
+  const supabase = createAdminClient();
+  const directory = getPodcastDirectory();
+  let stored = 0;
+  let reachedStored = false;
+  let reachedEnd = false;
+
+  for (let page = 1; page <= MAX_REFRESH_PAGES; page++) {
+    const episodes = await directory.getEpisodes(
+      podcast.taddy_uuid,
+      page,
+      REFRESH_PAGE_SIZE,
+    );
+
+    // Compared by UUID, since undated episodes can't be ordered by date
+    const uuids = episodes.map((e) => e.uuid);
+    const { data: known, error } = await supabase
+      .from("episodes")
+      .select("taddy_uuid")
+      .eq("podcast_id", podcast.id)
+      .in("taddy_uuid", uuids);
+
+    if (error) {
+      console.error("Error fetching episodes:", error);
+      throw new Error("Failed to fetch episodes");
+    }
+
+    // Pages are newest first, so stop at the first already-stored episode
+    const knownUuids = new Set(known.map((row) => row.taddy_uuid));
+    const newer = episodes.filter((e) => !knownUuids.has(e.uuid));
+
+    await upsertEpisodes(podcast.id, newer);
+    stored += newer.length;
+
+    if (newer.length < episodes.length) {
+      reachedStored = true;
+      break;
+    }
+    if (episodes.length < REFRESH_PAGE_SIZE) {
+      reachedEnd = true;
+      break;
+    }
+  }
+
+  // New episodes sit on top of the range stored before. If there were more
+  // than one refresh fetches, there is a gap below them instead.
+  const coverage: RegistryCoverage = reachedStored
+    ? {
+        catalog_stored_at: podcast.catalog_stored_at,
+        newest_stored_count: podcast.newest_stored_count + stored,
+      }
+    : {
+        catalog_stored_at: reachedEnd ? new Date().toISOString() : null,
+        newest_stored_count: stored,
+      };
+
+  await supabase
+    .from("podcasts")
+    .update({ ...coverage, episodes_refreshed_at: new Date().toISOString() })
+    .eq("id", podcast.id);
+
+  return coverage;
+}
+
+/**
+ * Store every episode of a podcast in the registry, up to
+ * MAX_CATALOG_PAGES pages, and return the stored episodes' ids and Taddy
+ * UUIDs, newest first. Used before syncing a whole podcast.
+ */
+export async function storeBackCatalog(
+  podcast: Pick<RegistryPodcast, "id" | "taddy_uuid">,
+): Promise<Array<{ id: string; taddy_uuid: string }>> {
+  const directory = getPodcastDirectory();
+
+  for (let page = 1; page <= MAX_CATALOG_PAGES; page++) {
+    const episodes = await directory.getEpisodes(
+      podcast.taddy_uuid,
+      page,
+      REFRESH_PAGE_SIZE,
+    );
+
+    await upsertEpisodes(podcast.id, episodes);
+
+    if (episodes.length < REFRESH_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("episodes")
+    .select("id, taddy_uuid")
+    .eq("podcast_id", podcast.id)
+    .order("published_at", { ascending: false, nullsFirst: false });
+
+  if (error) {
+    console.error("Error fetching episodes:", error);
+    throw new Error("Failed to fetch episodes");
+  }
+
+  await supabase
+    .from("podcasts")
+    .update({
+      catalog_stored_at: new Date().toISOString(),
+      newest_stored_count: data.length,
+    })
+    .eq("id", podcast.id);
+
+  return data;
+}
+
+/**
+ * Store a podcast's back catalog unless that has been done before. Later
+ * episodes reach the registry through refreshEpisodes.
+ */
+export async function fillBackCatalog(
+  podcast: Pick<RegistryPodcast, "id" | "taddy_uuid">,
+): Promise<void> {
+  const { data } = await createAdminClient()
+    .from("podcasts")
+    .select("catalog_stored_at")
+    .eq("id", podcast.id)
+    .maybeSingle();
+
+  if (!data?.catalog_stored_at) {
+    await storeBackCatalog(podcast);
+  }
+}
+
+/**
+ * Quote a keyword as a PostgREST `ilike` substring pattern, so commas and
+ * parentheses in it cannot break the `or` filter syntax. `%`, `_` and `*`
+ * (PostgREST's alias for `%`) are escaped to match literally.
+ */
+function ilikeSubstring(keyword: string): string {
+  const literal = keyword.replace(/[\\%_*]/g, "\\$&");
+  // Backslashes and quotes are escaped again for the quoted value
+  return `"%${literal.replace(/["\\]/g, "\\$&")}%"`;
+}
+
+/**
+ * Read one page of a podcast's stored episodes, newest first unless
+ * `filters.sort` says otherwise. The played/unplayed filter is checked
+ * against the current user's progress in the database.
+ */
+export async function getStoredEpisodes(
+  podcastId: string,
+  page: number = 1,
+  limit: number = 25,
+  filters: EpisodeFilters = {},
+): Promise<EpisodeRow[]> {
+  const supabase = await createClient();
+
+  let query = filters.played
+    ? supabase
+        .rpc("podcast_episodes_by_played", {
+          p_podcast_id: podcastId,
+          p_played: filters.played === "played",
+        })
+        .select("*")
+    : supabase.from("episodes").select("*").eq("podcast_id", podcastId);
+
+  if (filters.season !== undefined) {
+    query = query.eq("season_number", filters.season);
+  }
+  if (filters.minDuration) {
+    query = query.gte("duration", filters.minDuration * 60);
+  }
+  if (filters.maxDuration) {
+    query = query.lte("duration", filters.maxDuration * 60);
+  }
+  if (filters.q) {
+    const pattern = ilikeSubstring(filters.q);
+    query = query.or(`name.ilike.${pattern},description.ilike.${pattern}`);
+  }
+
+  const { data, error } = await query
+    .order("published_at", {
+      ascending: filters.sort === "oldest",
+      nullsFirst: false,
+    })
+    .order("taddy_uuid")
+    .range((page - 1) * limit, page * limit - 1);
+
+  if (error) {
+    console.error("Error fetching episodes:", error);
+    throw new Error("Failed to fetch episodes");
+  }
+
+  return data;
+}
+
+/**
+ * Season numbers among a podcast's stored episodes, in order.
+ */
+export async function getStoredSeasons(podcastId: string): Promise<number[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("episodes")
+    .select("season_number")
+    .eq("podcast_id", podcastId)
+    .not("season_number", "is", null);
+
+  if (error) {
+    console.error("Error fetching seasons:", error);
+    return [];
+  }
+
+  return [...new Set(data.map((row) => row.season_number as number))].sort(
+    (a, b) => a - b,
+  );
+}
+
+/**
+ * Record that the registry holds the newest `count` episodes without gaps,
+ * unless it was already known to hold more.
+ */
+async function extendNewestStored(podcastId: string, count: number) {
+  const { error } = await createAdminClient()
+    .from("podcasts")
+    .update({ newest_stored_count: count })
+    .eq("id", podcastId)
+    .lt("newest_stored_count", count);
+
+  if (error) {
+    console.error("Error recording stored episodes:", error);
+  }
+}
+
+function needsRefresh(podcast: RegistryPodcast): boolean {
+  return (
+    !podcast.episodes_refreshed_at ||
+    Date.now() - Date.parse(podcast.episodes_refreshed_at) > REFRESH_INTERVAL_MS
+  );
+}
+
+/**
+ * Get one page of a podcast's episodes from the registry, refreshing it
+ * first if it is stale. Episodes also reach the registry one page or one
+ * episode at a time, so newest-first pages are read from it only within
+ * the range it holds without gaps. Other pages (or any page, if the
+ * database is unavailable) are fetched from the podcast directory and
+ * stored for next time.
+ *
+ * The directory cannot filter, so filtered pages search the registry,
+ * after storing the podcast's back catalog the first time one is asked
+ * for.
+ */
+export async function getPodcastEpisodes(
+  podcast: RegistryPodcast,
+  page: number = 1,
+  limit: number = 25,
+  filters: EpisodeFilters = {},
+): Promise<TaddyEpisode[]> {
+  if (needsRefresh(podcast)) {
+    try {
+      podcast = { ...podcast, ...(await refreshEpisodes(podcast)) };
+    } catch (error) {
+      console.error("Error refreshing episodes:", error);
+    }
+  }
+
+  if (hasEpisodeFilters(filters)) {
+    try {
+      await fillBackCatalog(podcast);
+    } catch (error) {
+      // Filter what is stored rather than fail the page
+      console.error("Error storing back catalog:", error);
+    }
+
+    const rows = await getStoredEpisodes(podcast.id, page, limit, filters);
+    return rows.map(toTaddyEpisode);
+  }
+
+  const sort = filters.sort ?? "newest";
+  let stored: TaddyEpisode[] = [];
+
+  const storedThrough = podcast.catalog_stored_at
+    ? Infinity
+    : podcast.newest_stored_count;
+
+  // Refreshes store the newest episodes first, so until the whole back
+  // catalog is stored the registry only covers the newest pages. Oldest
+  // pages fetched below are stored too, but leave a gap above them, so they
+  // never count towards the range read from here.
+  const covered =
+    sort === "newest"
+      ? page * limit <= storedThrough
+      : podcast.catalog_stored_at !== null;
+
+  if (covered) {
+    try {
+      stored = (await getStoredEpisodes(podcast.id, page, limit, { sort })).map(
+        toTaddyEpisode,
+      );
+    } catch {
+      // Logged by getStoredEpisodes; fall through to the directory
+    }
+
+    if (stored.length === limit) {
+      return stored;
+    }
+  }
+
+  const live = await getPodcastDirectory().getEpisodes(
+    podcast.taddy_uuid,
+    page,
+    limit,
+    sort,
+  );
+
+  if (live.length <= stored.length) {
+    return stored;
+  }
+
+  try {
+    await upsertEpisodes(podcast.id, live);
+
+    // A newest-first page that starts within the gapless range extends it
+    if (sort === "newest" && (page - 1) * limit <= storedThrough) {
+      await extendNewestStored(podcast.id, (page - 1) * limit + live.length);
+    }
+  } catch {
+    // Logged by upsertEpisodes; the page can still be shown
+  }
+
+  return live;
+}
+
+/**
+ * Get one of a podcast's episodes by Taddy UUID from the registry, falling
+ * back to the podcast directory (and storing the result) if it has not
+ * been stored yet. Throws TaddyEpisodeNotFoundError if the podcast has no
+ * such episode.
+ */
+export async function getPodcastEpisode(
+  podcast: Pick<RegistryPodcast, "id" | "taddy_uuid">,
+  taddyUuid: string,
+): Promise<TaddyEpisode> {
+  const supabase = await createClient();
+
+  const { data: row } = await supabase
+    .from("episodes")
+    .select("*")
+    .eq("podcast_id", podcast.id)
+    .eq("taddy_uuid", taddyUuid)
+    .maybeSingle();
+
+  if (row) {
+    return toTaddyEpisode(row);
+  }
+
+  const { podcast: series, ...episode } =
+    await getPodcastDirectory().getEpisode(taddyUuid);
+
+  if (series.uuid !== podcast.taddy_uuid) {
+    throw new TaddyEpisodeNotFoundError(
+      `Episode ${taddyUuid} does not belong to podcast ${podcast.taddy_uuid}`,
+    );
+  }
+
+  try {
+    await upsertEpisodes(podcast.id, [episode]);
+  } catch {
+    // Logged by upsertEpisodes; the episode can still be shown
+  }
+
+  return episode;
+}
@@ -0,0 +1,253 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import {
+  taddyEpisodeSchema,
+  taddyPodcastSchema,
+  taddyTranscriptItemSchema,
+  type TaddyEpisodeWithPodcast,
+} from "@/lib/taddy";
+import {
+  TaddyEpisodeNotFoundError,
+  TaddyNotFoundError,
+  TaddyValidationError,
+} from "@/lib/taddy-errors";
+import type { PodcastDirectory } from "@/lib/podcast-directory";
+
+const episodeTranscriptSchema = z.object({
+  status: z.string().nullable(),
+  transcript: z.string().nullable(),
+  segments: z.array(taddyTranscriptItemSchema).nullable(),
+});
+
+// UUIDs become file names, so anything else could escape the fixtures dir
+function isUuid(value: string): boolean {
+  return z.uuid().safeParse(value).success;
+}
+
+/**
+ * Read a JSON fixture and check it against `schema`, returning null if the
+ * file does not exist. Throws TaddyValidationError if it does not match, as
+ * the Taddy client does for malformed responses.
+ */
+async function readFixture<S extends z.ZodType>(
+  file: string,
+  schema: S,
+): Promise<z.output<S> | null> {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const result = schema.safeParse(data);
+
+  if (result.success) {
+    return result.data;
+  }
+
+  const name = path.basename(file);
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.map(String).join(".") || "(root)",
+    message: issue.message,
+  }));
+  const [first] = issues;
+
+  throw new TaddyValidationError(
+    `Fixture ${name} failed validation: ${first.path}: ${first.message}`,
+    name,
+    issues,
+  );
+}
+
+/**
+ * Create a podcast directory backed by JSON files, for offline development.
+ *
+ * Expected layout under `dir`:
+ *   podcasts.json                   TaddyPodcast[]
+ *   episodes/<podcast uuid>.json    TaddyEpisode[]
+ *   transcripts/<episode uuid>.json EpisodeTranscript
+ *
+ * Files are read on every call so fixtures can be edited without a restart.
+ */
+export function createFixtureDirectory(dir: string): PodcastDirectory {
+  const root = path.resolve(process.cwd(), dir);
+
+  const loadPodcasts = async () =>
+    (await readFixture(
+      path.join(root, "podcasts.json"),
+      z.array(taddyPodcastSchema),
+    )) ?? [];
+
+  const loadEpisodes = async (podcastUuid: string) =>
+    isUuid(podcastUuid)
+      ? readFixture(
+          path.join(root, "episodes", `${podcastUuid}.json`),
+          z.array(taddyEpisodeSchema),
+        )
+      : null;
+
+  const directory: PodcastDirectory = {
+    async searchPodcasts(term, { page = 1, limit = 20, filters = {} } = {}) {
+      const needle = term.trim().toLowerCase();
+      const podcasts = await loadPodcasts();
+
+      // Fixtures have no explicit-content flag, so safeMode is ignored
+      const matches = podcasts.filter(
+        (p) =>
+          [p.name, p.authorName, p.description].some((field) =>
+            field?.toLowerCase().includes(needle),
+          ) &&
+          (!filters.genres?.length ||
+            filters.genres.some((g) => p.genres?.includes(g))) &&
+          (!filters.languages?.length ||
+            filters.languages.some((l) => l === p.language)) &&
+          (!filters.minEpisodes ||
+            (p.totalEpisodesCount ?? 0) >= filters.minEpisodes),
+      );
+
+      if (filters.sortBy === "popularity") {
+        matches.sort(
+          (a, b) => (b.totalEpisodesCount ?? 0) - (a.totalEpisodesCount ?? 0),
+        );
+      }
+
+      return {
+        searchId: null,
+        podcasts: matches.slice((page - 1) * limit, page * limit),
+        page,
+        hasMore: page * limit < matches.length,
+        totalCount: matches.length,
+      };
+    },
+
+    async searchEpisodes(term, { page = 1, limit = 20 } = {}) {
+      const needle = term.trim().toLowerCase();
+      const podcasts = await loadPodcasts();
+
+      const matches: TaddyEpisodeWithPodcast[] = [];
+      for (const podcast of podcasts) {
+        const episodes = (await loadEpisodes(podcast.uuid)) ?? [];
+
+        for (const episode of episodes) {
+          if (
+            [episode.name, episode.description].some((field) =>
+              field?.toLowerCase().includes(needle),
+            )
+          ) {
+            matches.push({
+              ...episode,
+              podcast: {
+                uuid: podcast.uuid,
+                name: podcast.name,
+                authorName: podcast.authorName,
+                imageUrl: podcast.imageUrl,
+              },
+            });
+          }
+        }
+      }
+
+      return {
+        searchId: null,
+        episodes: matches.slice((page - 1) * limit, page * limit),
+        page,
+        hasMore: page * limit < matches.length,
+        totalCount: matches.length,
+      };
+    },
+
+    async getPodcast(uuid) {
+      const podcasts = await loadPodcasts();
+      const podcast = podcasts.find((p) => p.uuid === uuid);
+
+      if (!podcast) {
+        throw new TaddyNotFoundError(`Podcast ${uuid} not found in fixtures`);
+      }
+
+      return podcast;
+    },
+
+    async findPodcast({ rssUrl, itunesId }) {
+      const podcasts = await loadPodcasts();
+
+      return (
+        podcasts.find(
+          (p) =>
+            (rssUrl && p.rssUrl === rssUrl) ||
+            (itunesId && p.itunesId === itunesId),
+        ) ?? null
+      );
+    },
+
+    async getEpisodes(podcastUuid, page = 1, limit = 25, sort = "newest") {
+      const episodes = await loadEpisodes(podcastUuid);
+
+      if (!episodes) {
+        throw new TaddyNotFoundError(
+          `Podcast ${podcastUuid} not found in fixtures`,
+        );
+      }
+
+      const direction = sort === "oldest" ? 1 : -1;
+
+      return [...episodes]
+        .sort(
+          (a, b) =>
+            direction * ((a.datePublished ?? 0) - (b.datePublished ?? 0)),
+        )
+        .slice((page - 1) * limit, page * limit);
+    },
+
+    async getEpisode(uuid) {
+      for (const podcast of await loadPodcasts()) {
+        const episodes = (await loadEpisodes(podcast.uuid)) ?? [];
+        const episode = episodes.find((e) => e.uuid === uuid);
+
+        if (episode) {
+          return {
+            ...episode,
+            podcast: {
+              uuid: podcast.uuid,
+              name: podcast.name,
+              authorName: podcast.authorName,
+              imageUrl: podcast.imageUrl,
+            },
+          };
+        }
+      }
+
+      throw new TaddyEpisodeNotFoundError(
+        `Episode ${uuid} not found in fixtures`,
+      );
+    },
+
+    async getEpisodeTranscript(uuid) {
+      if (!isUuid(uuid)) {
+        throw new TaddyEpisodeNotFoundError(
+          `Episode ${uuid} not found in fixtures`,
+        );
+      }
+
+      const transcript = await readFixture(
+        path.join(root, "transcripts", `${uuid}.json`),
+        episodeTranscriptSchema,
+      );
+
+      if (transcript) {
+        return transcript;
+      }
+
+      // Match Taddy, which throws only for unknown episodes
+      await directory.getEpisode(uuid);
+      return { status: null, transcript: null, segments: null };
+    },
+  };
+
+  return directory;
+}
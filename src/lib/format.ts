@@ -0,0 +1,12 @@
+/**
+ * Format a position in seconds as a transcript timestamp,
+ * e.g. 75 -> "1:15" and 3725 -> "1:02:05".
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
@@ -0,0 +1,182 @@
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { getPodcastDirectory } from "@/lib/podcast-directory";
+import { fetchFeed, normalizeFeedUrl } from "@/lib/rss";
+import type { TaddyPodcast } from "@/lib/taddy";
+
+/**
+ * A database write failed while adding to the library.
+ * The message is safe to show to users.
+ */
+export class LibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LibraryError";
+  }
+}
+
+/** Where a podcast being added comes from. */
+export type PodcastSource = { taddyUuid: string } | { feedUrl: string };
+
+export type AddToLibraryResult =
+  | { status: "added"; id: string; podcastId: string }
+  | { status: "duplicate"; podcastId: string };
+
+function podcastRow(podcast: TaddyPodcast, taddyUuid: string | null) {
+  return {
+    taddy_uuid: taddyUuid,
+    itunes_id: podcast.itunesId?.toString() || null,
+    name: podcast.name,
+    description: podcast.description,
+    author: podcast.authorName,
+    image_url: podcast.imageUrl,
+    rss_url: podcast.rssUrl,
+    language: podcast.language || null,
+    total_episodes: podcast.totalEpisodesCount,
+    genres: podcast.genres || [],
+  };
+}
+
+/**
+ * The id of the `podcasts` row for a source, or null if there is none yet.
+ */
+async function findPodcastId(source: PodcastSource): Promise<string | null> {
+  const supabase = await createClient();
+
+  let existing: { id: string } | null;
+
+  if ("taddyUuid" in source) {
+    ({ data: existing } = await supabase
+      .from("podcasts")
+      .select("id")
+      .eq("taddy_uuid", source.taddyUuid)
+      .maybeSingle());
+  } else {
+    // Feed-only podcasts have no Taddy UUID and are keyed by feed URL
+    ({ data: existing } = await supabase
+      .from("podcasts")
+      .select("id")
+      .is("taddy_uuid", null)
+      .eq("rss_url", normalizeFeedUrl(source.feedUrl))
+      .maybeSingle());
+  }
+
+  return existing?.id ?? null;
+}
+
+/**
+ * Find the `podcasts` row for a source, creating it from the podcast
+ * directory (or the feed itself) if this is the first user to add it.
+ * Returns the podcast's id.
+ */
+export async function findOrCreatePodcast(
+  source: PodcastSource,
+): Promise<string> {
+  const existingId = await findPodcastId(source);
+
+  if (existingId) {
+    return existingId;
+  }
+
+  let row: ReturnType<typeof podcastRow>;
+
+  if ("taddyUuid" in source) {
+    const podcast = await getPodcastDirectory().getPodcast(source.taddyUuid);
+    row = podcastRow(podcast, podcast.uuid);
+  } else {
+    const feedUrl = normalizeFeedUrl(source.feedUrl);
+    const { podcast } = await fetchFeed(feedUrl);
+    row = podcastRow({ ...podcast, rssUrl: feedUrl }, null);
+  }
+
+  const { data: created, error } = await createAdminClient()
+    .from("podcasts")
+    .insert(row)
+    .select("id")
+    .single();
+
+  // Lost a race with another request creating the same podcast
+  if (error?.code === "23505") {
+    const racedId = await findPodcastId(source);
+    if (racedId) {
+      return racedId;
+    }
+  }
+
+  if (error || !created) {
+    console.error("Error creating podcast:", error);
+    throw new LibraryError("Failed to add podcast");
+  }
+
+  return created.id;
+}
+
+/**
+ * Add a podcast to a user's library.
+ * Throws FeedError, TaddyError or LibraryError on failure.
+ */
+export async function addPodcastToLibrary(
+  userProfileId: string,
+  source: PodcastSource,
+): Promise<AddToLibraryResult> {
+  const podcastId = await findOrCreatePodcast(source);
+  const supabase = await createClient();
+
+  // Check if user already has this podcast in their library
+  const { data: existingUserPodcast } = await supabase
+    .from("user_podcasts")
+    .select("id")
+    .eq("user_id", userProfileId)
+    .eq("podcast_id", podcastId)
+    .maybeSingle();
+
+  if (existingUserPodcast) {
+    return { status: "duplicate", podcastId };
+  }
+
+  const { data: userPodcast, error } = await supabase
+    .from("user_podcasts")
+    .insert({ user_id: userProfileId, podcast_id: podcastId })
+    .select("id")
+    .single();
+
+  // Added by a concurrent request since the check above
+  if (error?.code === "23505") {
+    return { status: "duplicate", podcastId };
+  }
+
+  if (error || !userPodcast) {
+    console.error("Error adding to library:", error);
+    throw new LibraryError("Failed to add to library");
+  }
+
+  return { status: "added", id: userPodcast.id, podcastId };
+}
+
+/**
+ * The `podcasts` id of a Taddy podcast if it is in the current user's
+ * library, or null if it isn't.
+ */
+export async function findLibraryPodcastId(
+  taddyUuid: string,
+): Promise<string | null> {
+  const supabase = await createClient();
+
+  const { data: podcast } = await supabase
+    .from("podcasts")
+    .select("id")
+    .eq("taddy_uuid", taddyUuid)
+    .maybeSingle();
+
+  if (!podcast) {
+    return null;
+  }
+
+  // RLS limits user_podcasts to the current user's rows
+  const { data: userPodcast } = await supabase
+    .from("user_podcasts")
+    .select("id")
+    .eq("podcast_id", podcast.id)
+    .maybeSingle();
+
+  return userPodcast ? podcast.id : null;
+}
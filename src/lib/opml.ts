@@ -0,0 +1,194 @@
+import { XMLParser } from "fast-xml-parser";
+import { z } from "zod";
+
+/** Largest OPML file the importer accepts. */
+export const MAX_OPML_BYTES = 2 * 1024 * 1024;
+
+/** Most feeds one OPML import may contain. */
+export const MAX_OPML_FEEDS = 1000;
+
+/**
+ * Most feeds per POST /api/library/import request. The client sends a
+ * file's feeds in batches so no request runs for long.
+ */
+export const MAX_IMPORT_BATCH = 20;
+
+export interface OpmlFeed {
+  title: string | null;
+  xmlUrl: string;
+  htmlUrl: string | null;
+  /** iTunes ID, when the outline links to Apple Podcasts. */
+  itunesId: number | null;
+}
+
+export type OpmlImportStatus = "added" | "duplicate" | "unmatched" | "failed";
+
+/** Outcome of importing one feed, as returned by POST /api/library/import. */
+export interface OpmlImportRow {
+  title: string | null;
+  xml_url: string;
+  status: OpmlImportStatus;
+  error?: string;
+}
+
+export type OpmlImportSummary = Record<OpmlImportStatus | "total", number>;
+
+/** Body of POST /api/library/import: one batch of a file's feeds. */
+export const opmlImportBatchSchema = z.object({
+  feeds: z
+    .array(
+      z.object({
+        title: z.string().max(1000).nullable(),
+        xmlUrl: z.string().min(1).max(2048),
+        itunesId: z.number().int().positive().nullable(),
+      }),
+    )
+    .min(1)
+    .max(MAX_IMPORT_BATCH),
+});
+
+export type OpmlImportFeed = z.infer<
+  typeof opmlImportBatchSchema
+>["feeds"][number];
+
+/**
+ * Count import results by status.
+ */
+export function summarizeImport(results: OpmlImportRow[]): OpmlImportSummary {
+  const count = (status: OpmlImportStatus) =>
+    results.filter((r) => r.status === status).length;
+
+  return {
+    total: results.length,
+    added: count("added"),
+    duplicate: count("duplicate"),
+    unmatched: count("unmatched"),
+    failed: count("failed"),
+  };
+}
+
+/**
+ * The file is not valid OPML. The message is safe to show to users.
+ */
+export class OpmlError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "OpmlError";
+  }
+}
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseAttributeValue: false,
+  isArray: (name) => name === "outline",
+});
+
+const ITUNES_ID_PATTERN = /(?:podcasts|itunes)\.apple\.com\/.*\/id(\d+)/;
+
+function itunesIdFrom(...urls: (string | null)[]): number | null {
+  for (const url of urls) {
+    const match = url?.match(ITUNES_ID_PATTERN);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+  return null;
+}
+
+function attr(node: XmlNode, name: string): string | null {
+  const value = node[`@_${name}`];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Collect every feed outline, flattening category folders.
+ */
+function collectFeeds(outlines: XmlNode[], feeds: OpmlFeed[]) {
+  for (const outline of outlines) {
+    const xmlUrl = attr(outline, "xmlUrl");
+
+    if (xmlUrl) {
+      const htmlUrl = attr(outline, "htmlUrl");
+      feeds.push({
+        title: attr(outline, "title") ?? attr(outline, "text"),
+        xmlUrl,
+        htmlUrl,
+        itunesId: itunesIdFrom(htmlUrl, xmlUrl),
+      });
+    }
+
+    if (Array.isArray(outline.outline)) {
+      collectFeeds(outline.outline as XmlNode[], feeds);
+    }
+  }
+}
+
+/**
+ * Parse an OPML subscription list (as exported by Overcast, Pocket Casts,
+ * Apple Podcasts, etc.) into its feeds, in document order.
+ */
+export function parseOpml(xml: string): OpmlFeed[] {
+  let document: XmlNode;
+
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    throw new OpmlError("File is not valid XML", { cause: error });
+  }
+
+  const body = (document.opml as XmlNode | undefined)?.body as
+    XmlNode | undefined;
+
+  if (!body) {
+    throw new OpmlError("File is not an OPML document");
+  }
+
+  const feeds: OpmlFeed[] = [];
+  collectFeeds((body.outline as XmlNode[] | undefined) ?? [], feeds);
+  return feeds;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Build an OPML 2.0 subscription list.
+ */
+export function buildOpml(
+  title: string,
+  feeds: Array<{ title: string; xmlUrl: string; htmlUrl?: string | null }>,
+): string {
+  const outlines = feeds.map((feed) => {
+    const attrs = [
+      `type="rss"`,
+      `text="${escapeXml(feed.title)}"`,
+      `title="${escapeXml(feed.title)}"`,
+      `xmlUrl="${escapeXml(feed.xmlUrl)}"`,
+      ...(feed.htmlUrl ? [`htmlUrl="${escapeXml(feed.htmlUrl)}"`] : []),
+    ];
+    return `    <outline ${attrs.join(" ")} />`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    `  </head>`,
+    `  <body>`,
+    ...outlines,
+    `  </body>`,
+    `</opml>`,
+    ``,
+  ].join("\n");
+}
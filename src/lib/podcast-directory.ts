@@ -0,0 +1,116 @@
+import {
+  taddyDirectory,
+  type TaddyEpisode,
+  type TaddyEpisodeWithPodcast,
+  type TaddyPodcast,
+  type TaddyTranscriptItem,
+} from "@/lib/taddy";
+import { createFixtureDirectory } from "@/lib/fixture-directory";
+import type { PodcastSearchFilters } from "@/lib/search-filters";
+import type { EpisodeSort } from "@/lib/episode-filters";
+
+export interface EpisodeTranscript {
+  status: string | null;
+  transcript: string | null;
+  segments: TaddyTranscriptItem[] | null;
+}
+
+/**
+ * One page of podcast search results.
+ */
+export interface PodcastSearchPage {
+  /** Identifies the search this page belongs to, if the directory has one. */
+  searchId: string | null;
+  podcasts: TaddyPodcast[];
+  page: number;
+  hasMore: boolean;
+  /** Total number of matches, when the directory reports it. */
+  totalCount: number | null;
+}
+
+/**
+ * One page of episode search results, each with its parent podcast.
+ */
+export interface EpisodeSearchPage {
+  searchId: string | null;
+  episodes: TaddyEpisodeWithPodcast[];
+  page: number;
+  hasMore: boolean;
+  totalCount: number | null;
+}
+
+/**
+ * Source of podcast, episode and transcript data.
+ * Records use the Taddy shapes regardless of where they come from.
+ */
+export interface PodcastDirectory {
+  /** Search for podcasts by term, one page at a time. */
+  searchPodcasts(
+    term: string,
+    options?: {
+      page?: number;
+      limit?: number;
+      filters?: PodcastSearchFilters;
+    },
+  ): Promise<PodcastSearchPage>;
+  /** Search for episodes across all podcasts, one page at a time. */
+  searchEpisodes(
+    term: string,
+    options?: { page?: number; limit?: number },
+  ): Promise<EpisodeSearchPage>;
+  /** Get a podcast by its directory UUID. Throws if it does not exist. */
+  getPodcast(uuid: string): Promise<TaddyPodcast>;
+  /** Look up a podcast by feed URL or iTunes ID, or null if unknown. */
+  findPodcast(lookup: {
+    rssUrl?: string;
+    itunesId?: number;
+  }): Promise<TaddyPodcast | null>;
+  /** Get episodes for a podcast, newest first by default, with pagination. */
+  getEpisodes(
+    podcastUuid: string,
+    page?: number,
+    limit?: number,
+    sort?: EpisodeSort,
+  ): Promise<TaddyEpisode[]>;
+  /**
+   * Get an episode and the podcast it belongs to by its directory UUID.
+   * Throws if it does not exist.
+   */
+  getEpisode(uuid: string): Promise<TaddyEpisodeWithPodcast>;
+  /**
+   * Get the transcript for an episode. Its fields are null if it has none.
+   * Throws if the episode does not exist.
+   */
+  getEpisodeTranscript(uuid: string): Promise<EpisodeTranscript>;
+}
+
+let directory: PodcastDirectory | undefined;
+
+/**
+ * Get the configured podcast directory.
+ *
+ * Set PODCAST_DIRECTORY=fixtures to serve data from the JSON files in
+ * PODCAST_FIXTURES_DIR (default `fixtures/directory`) instead of Taddy.
+ */
+export function getPodcastDirectory(): PodcastDirectory {
+  if (directory) {
+    return directory;
+  }
+
+  const configured = process.env.PODCAST_DIRECTORY ?? "taddy";
+
+  switch (configured) {
+    case "taddy":
+      directory = taddyDirectory;
+      break;
+    case "fixtures":
+      directory = createFixtureDirectory(
+        process.env.PODCAST_FIXTURES_DIR ?? "fixtures/directory",
+      );
+      break;
+    default:
+      throw new Error(`Unknown PODCAST_DIRECTORY: ${configured}`);
+  }
+
+  return directory;
+}
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { fillBackCatalog } from "@/lib/episodes";
+import { fetchFeed } from "@/lib/rss";
+
+// Within this many seconds of the end an episode counts as played, so
+// skipping the outro still marks it
+const COMPLETION_MARGIN_SECONDS = 30;
+
+/** A user's listening progress in one episode. */
+export interface EpisodeProgress {
+  episode_uuid: string;
+  position_seconds: number;
+  duration_seconds: number | null;
+  completed: boolean;
+  last_played_at: string;
+}
+
+/**
+ * Body of PUT /api/progress. Players that are not this app can report
+ * progress the same way.
+ */
+export const progressUpdateSchema = z.object({
+  podcast_id: z.uuid(),
+  episode_uuid: z.string().min(1),
+  position_seconds: z.number().min(0),
+  duration_seconds: z.number().positive().nullish(),
+  /** Defaults to whether the position is close to the end. */
+  completed: z.boolean().optional(),
+});
+
+export type ProgressUpdate = z.infer<typeof progressUpdateSchema>;
+
+/**
+ * A database read or write failed. The message is safe to show to users.
+ */
+export class ProgressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProgressError";
+  }
+}
+
+const PROGRESS_COLUMNS =
+  "episode_uuid, position_seconds, duration_seconds, completed, last_played_at";
+
+/**
+ * Get the current user's progress in a podcast's episodes, keyed by
+ * episode UUID.
+ */
+export async function getPodcastProgress(
+  podcastId: string,
+): Promise<Record<string, EpisodeProgress>> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("user_episode_progress")
+    .select(PROGRESS_COLUMNS)
+    .eq("podcast_id", podcastId);
+
+  if (error) {
+    console.error("Error fetching progress:", error);
+    throw new ProgressError("Failed to fetch progress");
+  }
+
+  return Object.fromEntries(data.map((row) => [row.episode_uuid, row]));
+}
+
+/**
+ * Record a user's position in an episode.
+ */
+export async function saveProgress(
+  userProfileId: string,
+  update: ProgressUpdate,
+): Promise<EpisodeProgress> {
+  const position = Math.floor(update.position_seconds);
+  const duration = update.duration_seconds
+    ? Math.floor(update.duration_seconds)
+    : null;
+  const completed =
+    update.completed ??
+    (duration !== null && position >= duration - COMPLETION_MARGIN_SECONDS);
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("user_episode_progress")
+    .upsert(
+      {
+        user_id: userProfileId,
+        podcast_id: update.podcast_id,
+        episode_uuid: update.episode_uuid,
+        position_seconds: position,
+        duration_seconds: duration,
+        completed,
+        last_played_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,episode_uuid" },
+    )
+    .select(PROGRESS_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Error saving progress:", error);
+    throw new ProgressError("Failed to save progress");
+  }
+
+  return data;
+}
+
+/**
+ * Mark every episode of a podcast as played for a user. Directory
+ * podcasts have their back catalog stored first, so the registry lists
+ * every episode; podcasts added by RSS URL use their feed. Played
+ * episodes resume from the start if they are played again. Returns the
+ * number of episodes updated.
+ *
+ * With `completed: false`, clears the played flag on the episodes the user
+ * has progress in instead, keeping their positions.
+ */
+export async function markPodcastPlayed(
+  userProfileId: string,
+  podcast: { id: string; taddy_uuid: string | null; rss_url: string | null },
+  completed: boolean = true,
+): Promise<number> {
+  const supabase = await createClient();
+
+  if (!completed) {
+    const { count, error } = await supabase
+      .from("user_episode_progress")
+      .update({ completed: false }, { count: "exact" })
+      .eq("user_id", userProfileId)
+      .eq("podcast_id", podcast.id)
+      .eq("completed", true);
+
+    if (error) {
+      console.error("Error marking episodes unplayed:", error);
+      throw new ProgressError("Failed to update progress");
+    }
+
+    return count ?? 0;
+  }
+
+  let episodes: Array<{ uuid: string; duration: number | null }>;
+
+  if (podcast.taddy_uuid) {
+    await fillBackCatalog({ id: podcast.id, taddy_uuid: podcast.taddy_uuid });
+
+    const { data, error } = await supabase
+      .from("episodes")
+      .select("taddy_uuid, duration")
+      .eq("podcast_id", podcast.id);
+
+    if (error) {
+      console.error("Error fetching episodes:", error);
+      throw new ProgressError("Failed to fetch episodes");
+    }
+
+    episodes = data.map((e) => ({ uuid: e.taddy_uuid, duration: e.duration }));
+  } else if (podcast.rss_url) {
+    episodes = (await fetchFeed(podcast.rss_url)).episodes;
+  } else {
+    episodes = [];
+  }
+
+  if (episodes.length === 0) {
+    return 0;
+  }
+
+  const { error } = await supabase.from("user_episode_progress").upsert(
+    episodes.map((episode) => ({
+      user_id: userProfileId,
+      podcast_id: podcast.id,
+      episode_uuid: episode.uuid,
+      position_seconds: 0,
+      duration_seconds: episode.duration,
+      completed: true,
+    })),
+    { onConflict: "user_id,episode_uuid" },
+  );
+
+  if (error) {
+    console.error("Error marking episodes played:", error);
+    throw new ProgressError("Failed to update progress");
+  }
+
+  return episodes.length;
+}
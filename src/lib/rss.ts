@@ -0,0 +1,490 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { XMLParser } from "fast-xml-parser";
+import type { TaddyEpisode, TaddyPodcast } from "@/lib/taddy";
+
+const FEED_TIMEOUT_MS = 15_000;
+// Large enough for feeds listing thousands of episodes
+const MAX_FEED_BYTES = 20 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+// How long a parsed feed is reused before it is fetched again
+const FEED_CACHE_TTL_MS = 10 * 60 * 1000;
+const FEED_CACHE_MAX_ENTRIES = 100;
+
+/**
+ * A feed could not be fetched or is not valid RSS/Atom.
+ * The message is safe to show to users.
+ */
+export class FeedError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "FeedError";
+  }
+}
+
+/**
+ * A parsed podcast feed, mapped onto the Taddy shapes so feed-only podcasts
+ * render with the same components. Feed podcasts have no Taddy UUID, so
+ * `podcast.uuid` is the feed URL and each episode's `uuid` is its guid
+ * (falling back to the enclosure or link URL).
+ */
+export interface ParsedFeed {
+  podcast: TaddyPodcast;
+  episodes: TaddyEpisode[];
+}
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) =>
+    ["item", "entry", "link", "category", "itunes:category"].includes(name),
+});
+
+/**
+ * Text content of an element that may carry attributes.
+ */
+function text(node: unknown): string | null {
+  if (node === undefined || node === null) {
+    return null;
+  }
+  if (Array.isArray(node)) {
+    return text(node[0]);
+  }
+  if (typeof node === "object") {
+    return text((node as XmlNode)["#text"]);
+  }
+  const value = String(node).trim();
+  return value.length > 0 ? value : null;
+}
+
+function attr(node: unknown, name: string): string | null {
+  if (Array.isArray(node)) {
+    return attr(node[0], name);
+  }
+  if (node && typeof node === "object") {
+    return text((node as XmlNode)[`@_${name}`]);
+  }
+  return null;
+}
+
+function toInteger(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Parse an itunes:duration value ("3600", "59:00" or "1:02:03") to seconds.
+ */
+export function parseDuration(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const parts = value.split(":").map(Number);
+  if (parts.some((p) => !Number.isFinite(p))) {
+    return null;
+  }
+
+  return Math.round(parts.reduce((total, part) => total * 60 + part, 0));
+}
+
+/**
+ * Parse an RFC 822 (RSS) or ISO 8601 (Atom) date to epoch seconds.
+ */
+function parseDate(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+/**
+ * Strip HTML tags and decode common entities from show notes.
+ */
+function plainText(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  return (
+    value
+      .replace(/<[^>]*>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, " ")
+      .trim() || null
+  );
+}
+
+function categories(nodes: unknown): string[] {
+  if (!Array.isArray(nodes)) {
+    return [];
+  }
+  return nodes
+    .map((node) => attr(node, "text") ?? attr(node, "term") ?? text(node))
+    .filter((c): c is string => c !== null);
+}
+
+function parseRss(channel: XmlNode, feedUrl: string): ParsedFeed {
+  const items = (channel.item as XmlNode[] | undefined) ?? [];
+
+  const episodes = items.map((item): TaddyEpisode => {
+    const audioUrl = attr(item.enclosure, "url");
+    const guid = text(item.guid);
+
+    return {
+      uuid: guid ?? audioUrl ?? text(item.link) ?? text(item.title) ?? "",
+      name: text(item.title) ?? "Untitled episode",
+      description: plainText(
+        text(item["content:encoded"]) ??
+          text(item.description) ??
+          text(item["itunes:summary"]),
+      ),
+      audioUrl,
+      imageUrl: attr(item["itunes:image"], "href"),
+      duration: parseDuration(text(item["itunes:duration"])),
+      datePublished: parseDate(text(item.pubDate)),
+      seasonNumber: toInteger(text(item["itunes:season"])),
+      episodeNumber: toInteger(text(item["itunes:episode"])),
+      guid,
+    };
+  });
+
+  const itunesCategories = categories(channel["itunes:category"]);
+
+  return {
+    podcast: {
+      uuid: feedUrl,
+      name: text(channel.title) ?? feedUrl,
+      description: plainText(
+        text(channel.description) ?? text(channel["itunes:summary"]),
+      ),
+      authorName:
+        text(channel["itunes:author"]) ?? text(channel.managingEditor),
+      imageUrl:
+        attr(channel["itunes:image"], "href") ??
+        text((channel.image as XmlNode | undefined)?.url),
+      itunesId: null,
+      rssUrl: feedUrl,
+      language: text(channel.language),
+      totalEpisodesCount: episodes.length,
+      genres:
+        itunesCategories.length > 0
+          ? itunesCategories
+          : categories(channel.category),
+    },
+    episodes,
+  };
+}
+
+function parseAtom(feed: XmlNode, feedUrl: string): ParsedFeed {
+  const entries = (feed.entry as XmlNode[] | undefined) ?? [];
+
+  const episodes = entries.map((entry): TaddyEpisode => {
+    const links = (entry.link as XmlNode[] | undefined) ?? [];
+    const enclosure = links.find((l) => attr(l, "rel") === "enclosure");
+    const alternate = links.find((l) => attr(l, "rel") !== "enclosure");
+    const audioUrl = attr(enclosure, "href");
+    const id = text(entry.id);
+
+    return {
+      uuid: id ?? audioUrl ?? attr(alternate, "href") ?? "",
+      name: text(entry.title) ?? "Untitled episode",
+      description: plainText(text(entry.summary) ?? text(entry.content)),
+      audioUrl,
+      imageUrl: attr(entry["itunes:image"], "href"),
+      duration: parseDuration(text(entry["itunes:duration"])),
+      datePublished: parseDate(text(entry.published) ?? text(entry.updated)),
+      seasonNumber: toInteger(text(entry["itunes:season"])),
+      episodeNumber: toInteger(text(entry["itunes:episode"])),
+      guid: id,
+    };
+  });
+
+  const author = feed.author as XmlNode | undefined;
+
+  return {
+    podcast: {
+      uuid: feedUrl,
+      name: text(feed.title) ?? feedUrl,
+      description: plainText(text(feed.subtitle)),
+      authorName: text(author?.name) ?? text(feed["itunes:author"]),
+      imageUrl: attr(feed["itunes:image"], "href") ?? text(feed.logo),
+      itunesId: null,
+      rssUrl: feedUrl,
+      language: attr(feed, "xml:lang"),
+      totalEpisodesCount: episodes.length,
+      genres: categories(feed.category),
+    },
+    episodes,
+  };
+}
+
+/**
+ * Parse RSS 2.0 or Atom XML. Episodes are returned newest first.
+ */
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+  let document: XmlNode;
+
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    throw new FeedError("Feed is not valid XML", { cause: error });
+  }
+
+  const channel = (document.rss as XmlNode | undefined)?.channel as
+    XmlNode | undefined;
+  const atom = document.feed as XmlNode | undefined;
+
+  let parsed: ParsedFeed;
+  if (channel) {
+    parsed = parseRss(channel, feedUrl);
+  } else if (atom) {
+    parsed = parseAtom(atom, feedUrl);
+  } else {
+    throw new FeedError("URL is not an RSS or Atom feed");
+  }
+
+  parsed.episodes = parsed.episodes
+    .filter((e) => e.uuid)
+    .sort((a, b) => (b.datePublished ?? 0) - (a.datePublished ?? 0));
+
+  return parsed;
+}
+
+/**
+ * Normalize a user-supplied feed URL, rejecting anything but http(s).
+ */
+export function normalizeFeedUrl(value: string): string {
+  let url: URL;
+
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new FeedError("Feed URL is not a valid URL");
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new FeedError("Feed URL must use http or https");
+  }
+
+  url.hash = "";
+  return url.toString();
+}
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and
+// other reserved ranges, which a feed URL must not reach
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is private or reserved. IPv4-mapped IPv6
+ * addresses are checked as IPv4.
+ */
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Reject URLs whose host is, or resolves to, a private or reserved
+ * address, so users cannot make the server fetch internal services.
+ */
+async function assertPublicUrl(url: URL) {
+  // URL keeps the brackets around IPv6 hosts
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch (error) {
+    throw new FeedError("Feed host could not be found", { cause: error });
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new FeedError("Feed URL must point to a public address");
+  }
+}
+
+/**
+ * Read a response body as text, giving up past MAX_FEED_BYTES.
+ */
+async function readLimited(response: Response): Promise<string> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > MAX_FEED_BYTES) {
+    throw new FeedError("Feed is too large");
+  }
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw new FeedError("Feed is too large");
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Fetch a feed's XML, checking the address of every redirect hop.
+ */
+async function downloadFeed(
+  feedUrl: string,
+  signal: AbortSignal,
+): Promise<string> {
+  let url = new URL(feedUrl);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new FeedError("Feed URL must use http or https");
+    }
+    await assertPublicUrl(url);
+
+    const response = await fetch(url, {
+      headers: {
+        Accept:
+          "application/rss+xml, application/atom+xml, application/xml, text/xml",
+      },
+      redirect: "manual",
+      signal,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new FeedError(
+        `Feed request failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return readLimited(response);
+  }
+
+  throw new FeedError("Feed redirected too many times");
+}
+
+async function loadFeed(feedUrl: string): Promise<ParsedFeed> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FEED_TIMEOUT_MS);
+
+  let xml: string;
+
+  try {
+    xml = await downloadFeed(feedUrl, controller.signal);
+  } catch (error) {
+    if (error instanceof FeedError) {
+      throw error;
+    }
+    throw new FeedError(
+      controller.signal.aborted
+        ? "Feed request timed out"
+        : "Feed could not be fetched",
+      { cause: error },
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  return parseFeed(xml, feedUrl);
+}
+
+// Parsed feeds by URL, oldest first, and fetches in flight, so page
+// renders and mark-played calls don't each download the feed again
+const feedCache = new Map<string, { feed: ParsedFeed; expiresAt: number }>();
+const pendingFeeds = new Map<string, Promise<ParsedFeed>>();
+
+/**
+ * Fetch and parse a podcast feed. Only public http(s) addresses are
+ * fetched, and a parsed feed is reused for a few minutes.
+ */
+export async function fetchFeed(feedUrl: string): Promise<ParsedFeed> {
+  const cached = feedCache.get(feedUrl);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.feed;
+  }
+
+  const inFlight = pendingFeeds.get(feedUrl);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const promise = loadFeed(feedUrl).then((feed) => {
+    feedCache.delete(feedUrl);
+    feedCache.set(feedUrl, { feed, expiresAt: Date.now() + FEED_CACHE_TTL_MS });
+    while (feedCache.size > FEED_CACHE_MAX_ENTRIES) {
+      const oldest = feedCache.keys().next().value;
+      if (oldest === undefined) break;
+      feedCache.delete(oldest);
+    }
+    return feed;
+  });
+
+  pendingFeeds.set(feedUrl, promise);
+
+  try {
+    return await promise;
+  } finally {
+    pendingFeeds.delete(feedUrl);
+  }
+}
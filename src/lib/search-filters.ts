@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+/**
+ * Top-level Taddy `Genre` enum values. Taddy also has sub-genres
+ * (e.g. PODCASTSERIES_TECHNOLOGY_...), which `TaddyPodcast.genres` may
+ * contain, but search only offers the top level.
+ */
+export const PODCAST_GENRES = [
+  "PODCASTSERIES_ARTS",
+  "PODCASTSERIES_BUSINESS",
+  "PODCASTSERIES_COMEDY",
+  "PODCASTSERIES_EDUCATION",
+  "PODCASTSERIES_FICTION",
+  "PODCASTSERIES_GOVERNMENT",
+  "PODCASTSERIES_HEALTH_AND_FITNESS",
+  "PODCASTSERIES_HISTORY",
+  "PODCASTSERIES_KIDS_AND_FAMILY",
+  "PODCASTSERIES_LEISURE",
+  "PODCASTSERIES_MUSIC",
+  "PODCASTSERIES_NEWS",
+  "PODCASTSERIES_RELIGION_AND_SPIRITUALITY",
+  "PODCASTSERIES_SCIENCE",
+  "PODCASTSERIES_SOCIETY_AND_CULTURE",
+  "PODCASTSERIES_SPORTS",
+  "PODCASTSERIES_TECHNOLOGY",
+  "PODCASTSERIES_TRUE_CRIME",
+  "PODCASTSERIES_TV_AND_FILM",
+] as const;
+
+/** Taddy `Language` enum values offered in search. */
+export const PODCAST_LANGUAGES = [
+  "ENGLISH",
+  "SPANISH",
+  "FRENCH",
+  "GERMAN",
+  "PORTUGUESE",
+  "ITALIAN",
+  "DUTCH",
+  "JAPANESE",
+  "KOREAN",
+  "CHINESE",
+  "HINDI",
+] as const;
+
+export const SEARCH_SORT_OPTIONS = ["relevance", "popularity"] as const;
+
+/** Whether Discover searches for podcasts or for individual episodes. */
+export type SearchMode = "podcasts" | "episodes";
+
+export const searchFiltersSchema = z.object({
+  genres: z.array(z.enum(PODCAST_GENRES)).optional(),
+  languages: z.array(z.enum(PODCAST_LANGUAGES)).optional(),
+  /** Exclude podcasts marked as explicit. */
+  safeMode: z.boolean().optional(),
+  minEpisodes: z.number().int().positive().optional(),
+  sortBy: z.enum(SEARCH_SORT_OPTIONS).optional(),
+});
+
+export type PodcastSearchFilters = z.infer<typeof searchFiltersSchema>;
+export type PodcastGenre = (typeof PODCAST_GENRES)[number];
+export type PodcastLanguage = (typeof PODCAST_LANGUAGES)[number];
+
+/**
+ * Human-readable label for a Taddy genre or language enum value,
+ * e.g. "PODCASTSERIES_TRUE_CRIME" -> "True Crime".
+ */
+export function formatEnumLabel(value: string): string {
+  return value
+    .replace(/^PODCASTSERIES_/, "")
+    .split("_")
+    .map((word) =>
+      word === "AND" ? "&" : word.charAt(0) + word.slice(1).toLowerCase(),
+    )
+    .join(" ");
+}
+
+/**
+ * Read a search term, mode and filters from URL search params, ignoring
+ * any values that are not valid filter options.
+ *
+ *   ?q=history&genre=PODCASTSERIES_HISTORY&lang=ENGLISH&safe=1&minEpisodes=50&sort=popularity
+ *   ?q=sourdough&type=episodes
+ */
+export function parseSearchParams(params: URLSearchParams): {
+  query: string;
+  mode: SearchMode;
+  filters: PodcastSearchFilters;
+} {
+  const genres = params
+    .getAll("genre")
+    .filter((g): g is PodcastGenre =>
+      (PODCAST_GENRES as readonly string[]).includes(g),
+    );
+  const languages = params
+    .getAll("lang")
+    .filter((l): l is PodcastLanguage =>
+      (PODCAST_LANGUAGES as readonly string[]).includes(l),
+    );
+  const minEpisodes = Number(params.get("minEpisodes"));
+  const sort = params.get("sort");
+
+  return {
+    query: params.get("q")?.trim() ?? "",
+    mode: params.get("type") === "episodes" ? "episodes" : "podcasts",
+    filters: {
+      ...(genres.length > 0 ? { genres } : {}),
+      ...(languages.length > 0 ? { languages } : {}),
+      ...(params.get("safe") === "1" ? { safeMode: true } : {}),
+      ...(Number.isInteger(minEpisodes) && minEpisodes > 0
+        ? { minEpisodes }
+        : {}),
+      ...(sort === "popularity" ? { sortBy: "popularity" as const } : {}),
+    },
+  };
+}
+
+/**
+ * Encode a search term, mode and filters as URL search params.
+ */
+export function toSearchParams(
+  query: string,
+  filters: PodcastSearchFilters,
+  mode: SearchMode = "podcasts",
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query) params.set("q", query);
+  if (mode === "episodes") params.set("type", mode);
+  filters.genres?.forEach((g) => params.append("genre", g));
+  filters.languages?.forEach((l) => params.append("lang", l));
+  if (filters.safeMode) params.set("safe", "1");
+  if (filters.minEpisodes) {
+    params.set("minEpisodes", String(filters.minEpisodes));
+  }
+  if (filters.sortBy && filters.sortBy !== "relevance") {
+    params.set("sort", filters.sortBy);
+  }
+
+  return params;
+}
@@ -0,0 +1,244 @@
+import { runs, tasks } from "@trigger.dev/sdk/v3";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import type { syncPodcast } from "@/trigger/sync-podcast";
+
+/** Episodes synced at once by a podcast sync, unless the request says otherwise. */
+export const DEFAULT_SYNC_CONCURRENCY =
+  Number(process.env.SYNC_CONCURRENCY) || 5;
+export const MAX_SYNC_CONCURRENCY = 20;
+
+export type SyncJobStatus =
+  "queued" | "running" | "completed" | "failed" | "cancelled";
+
+/** Progress of a "sync all episodes" run for one podcast. */
+export interface PodcastSyncJob {
+  id: string;
+  podcast_id: string;
+  status: SyncJobStatus;
+  total_count: number;
+  /** Episodes still waiting to be synced. */
+  queued_count: number;
+  /** Episodes synced, including ones that already were. */
+  done_count: number;
+  failed_count: number;
+  error_message: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export type StartPodcastSyncResult =
+  | { status: "started"; job: PodcastSyncJob }
+  | { status: "already_running"; job: PodcastSyncJob };
+
+const SYNC_JOB_COLUMNS =
+  "id, podcast_id, status, total_count, queued_count, done_count, failed_count, error_message, created_at, started_at, completed_at";
+
+const ACTIVE_STATUSES: SyncJobStatus[] = ["queued", "running"];
+
+/**
+ * A sync job could not be read or updated. The message is safe to show
+ * to users.
+ */
+export class SyncJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncJobError";
+  }
+}
+
+/**
+ * Get the current user's most recent sync job for a podcast, or null if
+ * they have never synced it.
+ */
+export async function getLatestPodcastSyncJob(
+  podcastId: string,
+): Promise<PodcastSyncJob | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("sync_jobs")
+    .select(SYNC_JOB_COLUMNS)
+    .eq("podcast_id", podcastId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching sync job:", error);
+    throw new SyncJobError("Failed to fetch sync progress");
+  }
+
+  return data;
+}
+
+/**
+ * Start syncing every episode of a podcast for a user. If the user already
+ * has a sync of this podcast in progress, that job is returned instead.
+ */
+export async function startPodcastSync(
+  userProfileId: string,
+  podcastId: string,
+  concurrency: number = DEFAULT_SYNC_CONCURRENCY,
+): Promise<StartPodcastSyncResult> {
+  const active = await getLatestPodcastSyncJob(podcastId);
+  if (active && ACTIVE_STATUSES.includes(active.status)) {
+    return { status: "already_running", job: active };
+  }
+
+  const supabase = await createClient();
+
+  const { data: job, error } = await supabase
+    .from("sync_jobs")
+    .insert({
+      user_id: userProfileId,
+      podcast_id: podcastId,
+      status: "queued",
+      concurrency: Math.min(Math.max(1, concurrency), MAX_SYNC_CONCURRENCY),
+    })
+    .select(SYNC_JOB_COLUMNS)
+    .single();
+
+  // Lost a race with another request starting the same sync
+  if (error?.code === "23505") {
+    const running = await getLatestPodcastSyncJob(podcastId);
+    if (running) {
+      return { status: "already_running", job: running };
+    }
+  }
+
+  if (error || !job) {
+    console.error("Error creating sync job:", error);
+    throw new SyncJobError("Failed to start sync");
+  }
+
+  try {
+    const handle = await tasks.trigger<typeof syncPodcast>("sync-podcast", {
+      jobId: job.id,
+    });
+
+    await supabase
+      .from("sync_jobs")
+      .update({ trigger_run_id: handle.id })
+      .eq("id", job.id);
+  } catch (error) {
+    console.error("Error triggering podcast sync:", error);
+
+    await supabase
+      .from("sync_jobs")
+      .update({
+        status: "failed",
+        error_message: "Could not start sync",
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", job.id);
+
+    throw new SyncJobError("Failed to start sync");
+  }
+
+  return { status: "started", job };
+}
+
+/**
+ * Cancel the current user's in-progress sync of a podcast. Episodes that
+ * are already syncing finish; no more are started. Returns the cancelled
+ * job, or null if there was nothing to cancel.
+ */
+export async function cancelPodcastSync(
+  podcastId: string,
+): Promise<PodcastSyncJob | null> {
+  const supabase = await createClient();
+
+  const { data: job, error } = await supabase
+    .from("sync_jobs")
+    .update({
+      status: "cancelled",
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("podcast_id", podcastId)
+    .in("status", ACTIVE_STATUSES)
+    .select(`${SYNC_JOB_COLUMNS}, trigger_run_id`)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error cancelling sync job:", error);
+    throw new SyncJobError("Failed to cancel sync");
+  }
+
+  if (!job) {
+    return null;
+  }
+
+  // The task also stops at its next batch when it sees the status, so a
+  // failed cancel call only delays the stop
+  if (job.trigger_run_id) {
+    try {
+      await runs.cancel(job.trigger_run_id);
+    } catch (error) {
+      console.error("Error cancelling sync run:", error);
+    }
+  }
+
+  return job;
+}
+
+// =============================================================================
+// Task helpers (no user session, so these use the admin client)
+// =============================================================================
+
+/**
+ * Load a sync job for the task running it.
+ */
+export async function getSyncJob(
+  jobId: string,
+): Promise<PodcastSyncJob & { user_id: string; concurrency: number | null }> {
+  const { data, error } = await createAdminClient()
+    .from("sync_jobs")
+    .select(`${SYNC_JOB_COLUMNS}, user_id, concurrency`)
+    .eq("id", jobId)
+    .single();
+
+  if (error || !data) {
+    console.error("Error fetching sync job:", error);
+    throw new SyncJobError("Sync job not found");
+  }
+
+  return data;
+}
+
+/**
+ * Update a sync job's status or counts. Never overwrites a cancellation,
+ * so a user cancelling mid-batch wins over the task's next update.
+ * Returns false if the job has been cancelled.
+ */
+export async function updateSyncJob(
+  jobId: string,
+  fields: Partial<
+    Pick<
+      PodcastSyncJob,
+      | "status"
+      | "total_count"
+      | "queued_count"
+      | "done_count"
+      | "failed_count"
+      | "error_message"
+      | "started_at"
+      | "completed_at"
+    >
+  >,
+): Promise<boolean> {
+  const { data, error } = await createAdminClient()
+    .from("sync_jobs")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .neq("status", "cancelled")
+    .select("id");
+
+  if (error) {
+    console.error("Error updating sync job:", error);
+    throw new SyncJobError("Failed to update sync progress");
+  }
+
+  return data.length > 0;
+}
@@ -0,0 +1,385 @@
+import { createHash } from "crypto";
+import { createAdminClient } from "@/lib/supabase/server";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TaddyCacheKind = "search" | "podcast" | "episodes" | "transcript";
+
+interface TaddyCachePolicy {
+  /** Seconds an entry is served without revalidation. */
+  ttl: number;
+  /** Extra seconds a stale entry may be served while it is refreshed. */
+  staleWhileRevalidate: number;
+}
+
+export interface TaddyCacheEntry {
+  value: unknown;
+  freshUntil: number; // epoch ms
+  staleUntil: number; // epoch ms
+}
+
+/**
+ * Storage used by the Taddy cache. Implementations must never throw for a
+ * missing key; `get` returns null instead.
+ */
+export interface TaddyCacheBackend {
+  name: string;
+  get(key: string): Promise<TaddyCacheEntry | null>;
+  set(key: string, entry: TaddyCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface TaddyCacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  errors: number;
+}
+
+// =============================================================================
+// Policies
+// =============================================================================
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Podcast metadata rarely changes, episode lists change when a show
+ * publishes, and transcripts move from processing to complete, so each
+ * query type gets its own freshness window.
+ */
+export const TADDY_CACHE_POLICIES: Record<TaddyCacheKind, TaddyCachePolicy> = {
+  search: { ttl: 10 * MINUTE, staleWhileRevalidate: HOUR },
+  podcast: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+  episodes: { ttl: HOUR, staleWhileRevalidate: DAY },
+  transcript: { ttl: 15 * MINUTE, staleWhileRevalidate: 6 * HOUR },
+};
+
+// =============================================================================
+// Backends
+// =============================================================================
+
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Create an in-process cache backend. Entries are evicted oldest-first once
+ * the cache holds more than `maxEntries` keys.
+ */
+export function createMemoryCacheBackend(
+  maxEntries: number = MEMORY_CACHE_MAX_ENTRIES,
+): TaddyCacheBackend {
+  const entries = new Map<string, TaddyCacheEntry>();
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      // Re-insert so the Map's insertion order tracks recency
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a cache backend stored in the `taddy_cache` table.
+ * Uses the admin client since cache rows are shared across users.
+ */
+export function createSupabaseCacheBackend(): TaddyCacheBackend {
+  const supabase = createAdminClient();
+
+  return {
+    name: "supabase",
+    async get(key) {
+      const { data, error } = await supabase
+        .from("taddy_cache")
+        .select("value, fresh_until, stale_until")
+        .eq("key", key)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Taddy cache read failed: ${error.message}`);
+      }
+      if (!data) {
+        return null;
+      }
+
+      return {
+        value: data.value,
+        freshUntil: new Date(data.fresh_until).getTime(),
+        staleUntil: new Date(data.stale_until).getTime(),
+      };
+    },
+    async set(key, entry) {
+      const { error } = await supabase.from("taddy_cache").upsert({
+        key,
+        value: entry.value,
+        fresh_until: new Date(entry.freshUntil).toISOString(),
+        stale_until: new Date(entry.staleUntil).toISOString(),
+      });
+
+      if (error) {
+        throw new Error(`Taddy cache write failed: ${error.message}`);
+      }
+    },
+    async delete(key) {
+      const { error } = await supabase
+        .from("taddy_cache")
+        .delete()
+        .eq("key", key);
+
+      if (error) {
+        throw new Error(`Taddy cache delete failed: ${error.message}`);
+      }
+    },
+  };
+}
+
+/**
+ * Delete `taddy_cache` rows that are past their stale window and can never
+ * be served again. Returns the number of rows deleted.
+ */
+export async function purgeExpiredTaddyCache(): Promise<number> {
+  const { count, error } = await createAdminClient()
+    .from("taddy_cache")
+    .delete({ count: "exact" })
+    .lt("stale_until", new Date().toISOString());
+
+  if (error) {
+    throw new Error(`Taddy cache purge failed: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Pick a backend from TADDY_CACHE_BACKEND ("memory", "supabase" or "none").
+ * Defaults to Supabase in production and memory everywhere else.
+ */
+function createDefaultBackend(): TaddyCacheBackend | null {
+  const configured =
+    process.env.TADDY_CACHE_BACKEND ??
+    (process.env.NODE_ENV === "production" ? "supabase" : "memory");
+
+  switch (configured) {
+    case "none":
+      return null;
+    case "supabase":
+      return createSupabaseCacheBackend();
+    case "memory":
+      return createMemoryCacheBackend();
+    default:
+      throw new Error(`Unknown TADDY_CACHE_BACKEND: ${configured}`);
+  }
+}
+
+let backend: TaddyCacheBackend | null | undefined;
+
+function getBackend(): TaddyCacheBackend | null {
+  if (backend === undefined) {
+    backend = createDefaultBackend();
+  }
+  return backend;
+}
+
+/**
+ * Replace the cache backend, e.g. to share one across workers or to
+ * disable caching by passing null.
+ */
+export function setTaddyCacheBackend(next: TaddyCacheBackend | null) {
+  backend = next;
+}
+
+// =============================================================================
+// Stats
+// =============================================================================
+
+// How often the counters are logged while the cache is in use
+const STATS_LOG_INTERVAL_MS = 5 * 60 * 1000;
+
+const stats: Record<TaddyCacheKind, TaddyCacheStats> = {
+  search: { hits: 0, staleHits: 0, misses: 0, errors: 0 },
+  podcast: { hits: 0, staleHits: 0, misses: 0, errors: 0 },
+  episodes: { hits: 0, staleHits: 0, misses: 0, errors: 0 },
+  transcript: { hits: 0, staleHits: 0, misses: 0, errors: 0 },
+};
+
+let lastStatsLog = Date.now();
+
+function record(
+  kind: TaddyCacheKind,
+  outcome: keyof TaddyCacheStats,
+  key: string,
+) {
+  stats[kind][outcome] += 1;
+
+  if (process.env.TADDY_CACHE_DEBUG) {
+    console.info(`[taddy-cache] ${outcome} ${key}`);
+  }
+
+  if (Date.now() - lastStatsLog >= STATS_LOG_INTERVAL_MS) {
+    lastStatsLog = Date.now();
+    logTaddyCacheStats();
+  }
+}
+
+/**
+ * Log the hit/miss counters per query type since the process started, as
+ * one JSON line, so hit rates can be charted from the server logs. Called
+ * every few minutes while the cache is in use.
+ */
+export function logTaddyCacheStats() {
+  console.info(
+    JSON.stringify({
+      event: "taddy_cache_stats",
+      backend: backend?.name ?? "none",
+      stats,
+    }),
+  );
+}
+
+// =============================================================================
+// Cache
+// =============================================================================
+
+/**
+ * Serialize a value with object keys sorted, so that variable objects that
+ * differ only in key order produce the same cache key.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function taddyCacheKey(
+  kind: TaddyCacheKind,
+  query: string,
+  variables?: Record<string, unknown>,
+): string {
+  const hash = createHash("sha256")
+    .update(query.replace(/\s+/g, " ").trim())
+    .update("\n")
+    .update(stableStringify(variables ?? {}))
+    .digest("hex");
+
+  return `${kind}:${hash}`;
+}
+
+// In-flight fetches, so concurrent misses and background refreshes for the
+// same key share a single upstream request.
+const pending = new Map<string, Promise<unknown>>();
+
+async function fetchAndStore<T>(
+  store: TaddyCacheBackend,
+  kind: TaddyCacheKind,
+  key: string,
+  fetcher: () => Promise<T>,
+): Promise<T> {
+  const inFlight = pending.get(key);
+  if (inFlight) {
+    return inFlight as Promise<T>;
+  }
+
+  const promise = (async () => {
+    const value = await fetcher();
+    const policy = TADDY_CACHE_POLICIES[kind];
+    const now = Date.now();
+
+    try {
+      await store.set(key, {
+        value,
+        freshUntil: now + policy.ttl * 1000,
+        staleUntil: now + (policy.ttl + policy.staleWhileRevalidate) * 1000,
+      });
+    } catch (error) {
+      record(kind, "errors", key);
+      console.error("Taddy cache error:", error);
+    }
+
+    return value;
+  })();
+
+  pending.set(key, promise);
+
+  try {
+    return await promise;
+  } finally {
+    pending.delete(key);
+  }
+}
+
+/**
+ * Serve a Taddy query from the cache, calling `fetcher` on a miss.
+ *
+ * Fresh entries are returned as-is. Stale entries are returned immediately
+ * while a refresh runs in the background. Cache backend failures are logged
+ * and fall through to the fetcher rather than failing the query.
+ */
+export async function withTaddyCache<T>(
+  kind: TaddyCacheKind,
+  query: string,
+  variables: Record<string, unknown> | undefined,
+  fetcher: () => Promise<T>,
+): Promise<T> {
+  const store = getBackend();
+
+  if (!store) {
+    return fetcher();
+  }
+
+  const key = taddyCacheKey(kind, query, variables);
+  let entry: TaddyCacheEntry | null = null;
+
+  try {
+    entry = await store.get(key);
+  } catch (error) {
+    record(kind, "errors", key);
+    console.error("Taddy cache error:", error);
+  }
+
+  const now = Date.now();
+
+  if (entry && now < entry.freshUntil) {
+    record(kind, "hits", key);
+    return entry.value as T;
+  }
+
+  if (entry && now < entry.staleUntil) {
+    record(kind, "staleHits", key);
+    fetchAndStore(store, kind, key, fetcher).catch((error) => {
+      console.error("Taddy cache revalidation failed:", error);
+    });
+    return entry.value as T;
+  }
+
+  record(kind, "misses", key);
+  return fetchAndStore(store, kind, key, fetcher);
+}
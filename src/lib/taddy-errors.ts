@@ -0,0 +1,120 @@
+/**
+ * Base class for failures talking to the Taddy API.
+ * `status` and `userMessage` are what API routes should return to clients.
+ */
+export class TaddyError extends Error {
+  readonly status: number = 502;
+  readonly userMessage: string = "Podcast directory request failed";
+  /** Whether retrying the same request may succeed. */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Taddy rejected the request because we exceeded our quota or rate limit.
+ */
+export class TaddyRateLimitError extends TaddyError {
+  readonly status = 429;
+  readonly userMessage = "Podcast directory is busy, please try again shortly";
+  readonly retryable = true;
+
+  constructor(
+    message: string,
+    /** Seconds until the limit resets, from the response headers. */
+    readonly retryAfter: number | null = null,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Credentials are missing or rejected. Retrying will not help.
+ */
+export class TaddyAuthError extends TaddyError {
+  readonly status = 503;
+  readonly userMessage = "Podcast directory is not configured";
+}
+
+/**
+ * The requested podcast or episode does not exist in Taddy.
+ */
+export class TaddyNotFoundError extends TaddyError {
+  readonly status = 404;
+  readonly userMessage: string = "Podcast not found";
+}
+
+/**
+ * The requested episode does not exist in Taddy, or not under the podcast
+ * it was requested for.
+ */
+export class TaddyEpisodeNotFoundError extends TaddyNotFoundError {
+  readonly userMessage = "Episode not found";
+}
+
+/**
+ * Taddy is down, timed out or returned a server error.
+ */
+export class TaddyUnavailableError extends TaddyError {
+  readonly status = 503;
+  readonly userMessage = "Podcast directory is temporarily unavailable";
+  readonly retryable = true;
+}
+
+/**
+ * The GraphQL response contained `errors`. `data` holds whatever partial
+ * result Taddy returned alongside them.
+ */
+export class TaddyGraphQLError extends TaddyError {
+  readonly status = 502;
+  readonly userMessage = "Podcast directory returned an invalid response";
+
+  constructor(
+    message: string,
+    readonly errors: Array<{ message: string; path?: (string | number)[] }>,
+    readonly data: unknown = null,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The response data did not match the schema for its query, e.g. a field
+ * was renamed or a list came back null.
+ */
+export class TaddyValidationError extends TaddyError {
+  readonly status = 502;
+  readonly userMessage = "Podcast directory returned an invalid response";
+
+  constructor(
+    message: string,
+    /** GraphQL operation name of the query that failed validation. */
+    readonly queryName: string,
+    readonly issues: Array<{ path: string; message: string }>,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Map an error to an HTTP status and a message that is safe to show users.
+ * Returns null for errors that did not come from the Taddy client.
+ */
+export function describeTaddyError(
+  error: unknown,
+): { status: number; message: string; retryAfter?: number } | null {
+  if (!(error instanceof TaddyError)) {
+    return null;
+  }
+
+  return {
+    status: error.status,
+    message: error.userMessage,
+    ...(error instanceof TaddyRateLimitError && error.retryAfter !== null
+      ? { retryAfter: error.retryAfter }
+      : {}),
+  };
+}
@@ -1,93 +1,375 @@
+import { z } from "zod";
+import { withTaddyCache, type TaddyCacheKind } from "@/lib/taddy-cache";
+import {
+  TaddyAuthError,
+  TaddyEpisodeNotFoundError,
+  TaddyError,
+  TaddyGraphQLError,
+  TaddyNotFoundError,
+  TaddyRateLimitError,
+  TaddyUnavailableError,
+  TaddyValidationError,
+} from "@/lib/taddy-errors";
+import type {
+  EpisodeTranscript,
+  EpisodeSearchPage,
+  PodcastDirectory,
+  PodcastSearchPage,
+} from "@/lib/podcast-directory";
+import type { PodcastSearchFilters } from "@/lib/search-filters";
+import type { EpisodeSort } from "@/lib/episode-filters";
+
 const TADDY_API_URL = "https://api.taddy.org";
 
-interface TaddyResponse<T> {
-  data: T;
-  errors?: Array<{ message: string }>;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8_000;
+// Longest server-requested wait we are willing to sleep through before
+// giving up and surfacing the rate limit to the caller.
+const MAX_RETRY_AFTER_SECONDS = 30;
+const MAX_CONCURRENT_REQUESTS = Number(process.env.TADDY_MAX_CONCURRENCY) || 4;
+
+interface TaddyGraphQLErrorItem {
+  message: string;
+  path?: (string | number)[];
+  extensions?: { code?: string };
+}
+
+interface TaddyResponse {
+  data: unknown;
+  errors?: TaddyGraphQLErrorItem[];
+}
+
+export interface TaddyQueryOptions {
+  /** Cache the response using the TTLs for this query type. */
+  cache?: TaddyCacheKind;
+}
+
+/**
+ * Execute a GraphQL query against the Taddy API and validate the response
+ * data against `schema`.
+ *
+ * Rate-limited and unavailable responses are retried with jittered
+ * exponential backoff. Failures are thrown as `TaddyError` subclasses;
+ * responses that do not match the schema throw `TaddyValidationError`
+ * and are never cached.
+ */
+export async function taddyQuery<S extends z.ZodType>(
+  query: string,
+  schema: S,
+  variables?: Record<string, unknown>,
+  options: TaddyQueryOptions = {},
+): Promise<z.output<S>> {
+  const fetchValidated = async () =>
+    validateResponse(query, schema, await executeWithRetry(query, variables));
+
+  if (options.cache) {
+    return withTaddyCache(options.cache, query, variables, fetchValidated);
+  }
+
+  return fetchValidated();
 }
 
 /**
- * Execute a GraphQL query against the Taddy API.
+ * Parse response data with `schema`, naming the query and the offending
+ * fields in the error if it does not match.
  */
-export async function taddyQuery<T>(
+function validateResponse<S extends z.ZodType>(
+  query: string,
+  schema: S,
+  data: unknown,
+): z.output<S> {
+  const result = schema.safeParse(data);
+
+  if (result.success) {
+    return result.data;
+  }
+
+  const queryName = query.match(/query\s+(\w+)/)?.[1] ?? "anonymous query";
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.map(String).join(".") || "(root)",
+    message: issue.message,
+  }));
+
+  const summary = issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path}: ${issue.message}`)
+    .join("; ");
+  const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : "";
+
+  throw new TaddyValidationError(
+    `Taddy response for ${queryName} failed validation: ${summary}${more}`,
+    queryName,
+    issues,
+  );
+}
+
+async function executeWithRetry(
   query: string,
   variables?: Record<string, unknown>,
-): Promise<T> {
+): Promise<unknown> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await limitConcurrency(() => executeTaddyQuery(query, variables));
+    } catch (error) {
+      if (
+        !(error instanceof TaddyError) ||
+        !error.retryable ||
+        attempt >= MAX_ATTEMPTS
+      ) {
+        throw error;
+      }
+
+      let delay = backoffDelay(attempt);
+
+      if (error instanceof TaddyRateLimitError && error.retryAfter !== null) {
+        if (error.retryAfter > MAX_RETRY_AFTER_SECONDS) {
+          throw error;
+        }
+        delay = Math.max(delay, error.retryAfter * 1000);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^attempt.
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+
+/**
+ * Run `fn` once fewer than MAX_CONCURRENT_REQUESTS Taddy requests are in
+ * flight, so bulk jobs queue up instead of stampeding the API.
+ */
+async function limitConcurrency<T>(fn: () => Promise<T>): Promise<T> {
+  if (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+    await new Promise<void>((resolve) => waitingRequests.push(resolve));
+  } else {
+    activeRequests++;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    const next = waitingRequests.shift();
+    if (next) {
+      // Hand the slot directly to the next waiter
+      next();
+    } else {
+      activeRequests--;
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into seconds.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, (date - Date.now()) / 1000);
+  }
+
+  return null;
+}
+
+async function executeTaddyQuery(
+  query: string,
+  variables?: Record<string, unknown>,
+): Promise<unknown> {
   const userId = process.env.TADDY_USER_ID;
   const apiKey = process.env.TADDY_API_KEY;
 
   if (!userId || !apiKey) {
-    throw new Error("TADDY_USER_ID and TADDY_API_KEY must be set");
+    throw new TaddyAuthError("TADDY_USER_ID and TADDY_API_KEY must be set");
   }
 
-  const response = await fetch(TADDY_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-USER-ID": userId,
-      "X-API-KEY": apiKey,
-    },
-    body: JSON.stringify({ query, variables }),
-  });
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
-  if (!response.ok) {
-    throw new Error(
-      `Taddy API error: ${response.status} ${response.statusText}`,
-    );
-  }
+  let response: Response;
+  let result: TaddyResponse;
 
-  const result: TaddyResponse<T> = await response.json();
+  try {
+    response = await fetch(TADDY_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-USER-ID": userId,
+        "X-API-KEY": apiKey,
+      },
+      body: JSON.stringify({ query, variables }),
+      signal: controller.signal,
+    });
+
+    if (response.status === 429) {
+      throw new TaddyRateLimitError(
+        "Taddy API error: 429 Too Many Requests",
+        parseRetryAfter(response.headers.get("retry-after")),
+      );
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new TaddyAuthError(
+        `Taddy API error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    if (response.status >= 500) {
+      throw new TaddyUnavailableError(
+        `Taddy API error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    if (!response.ok) {
+      throw new TaddyError(
+        `Taddy API error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    result = await response.json();
+  } catch (error) {
+    if (error instanceof TaddyError) {
+      throw error;
+    }
+
+    const reason = controller.signal.aborted
+      ? `timed out after ${REQUEST_TIMEOUT_MS}ms`
+      : error instanceof Error
+        ? error.message
+        : String(error);
+
+    throw new TaddyUnavailableError(`Taddy API request failed: ${reason}`, {
+      cause: error,
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
 
   if (result.errors && result.errors.length > 0) {
-    throw new Error(`Taddy API error: ${result.errors[0].message}`);
+    const [first] = result.errors;
+    const message = `Taddy API error: ${first.message}`;
+
+    switch (first.extensions?.code) {
+      case "UNAUTHENTICATED":
+      case "FORBIDDEN":
+        throw new TaddyAuthError(message);
+      case "NOT_FOUND":
+        throw new TaddyNotFoundError(message);
+      case "RATE_LIMITED":
+      case "TOO_MANY_REQUESTS":
+        throw new TaddyRateLimitError(message);
+      default:
+        throw new TaddyGraphQLError(message, result.errors, result.data);
+    }
+  }
+
+  if (!result.data) {
+    throw new TaddyGraphQLError("Taddy API error: response has no data", []);
   }
 
   return result.data;
 }
 
 // =============================================================================
-// Types
+// Schemas
 // =============================================================================
 
-export interface TaddyPodcast {
-  uuid: string;
-  name: string;
-  description: string | null;
-  authorName: string | null;
-  imageUrl: string | null;
-  itunesId: number | null;
-  rssUrl: string | null;
-  language: string | null;
-  totalEpisodesCount: number | null;
-  genres: string[] | null;
-}
-
-export interface TaddyEpisode {
-  uuid: string;
-  name: string;
-  description: string | null;
-  audioUrl: string | null;
-  imageUrl: string | null;
-  duration: number | null;
-  datePublished: number | null; // epoch seconds
-  seasonNumber: number | null;
-  episodeNumber: number | null;
-  guid: string | null;
-}
-
-export interface TaddyTranscriptItem {
-  text: string;
-  startTime: number;
-  endTime: number;
-  speaker: string | null;
-}
+export const taddyPodcastSchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  authorName: z.string().nullable(),
+  imageUrl: z.string().nullable(),
+  itunesId: z.number().nullable(),
+  rssUrl: z.string().nullable(),
+  language: z.string().nullable(),
+  totalEpisodesCount: z.number().nullable(),
+  genres: z.array(z.string()).nullable(),
+});
+
+export const taddyEpisodeSchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  audioUrl: z.string().nullable(),
+  imageUrl: z.string().nullable(),
+  duration: z.number().nullable(),
+  datePublished: z.number().nullable(), // epoch seconds
+  seasonNumber: z.number().nullable(),
+  episodeNumber: z.number().nullable(),
+  guid: z.string().nullable(),
+});
+
+const taddyEpisodePodcastSchema = taddyPodcastSchema.pick({
+  uuid: true,
+  name: true,
+  authorName: true,
+  imageUrl: true,
+});
+
+export const taddyEpisodeWithPodcastSchema = taddyEpisodeSchema.extend({
+  podcast: taddyEpisodePodcastSchema,
+});
+
+export const taddyTranscriptItemSchema = z.object({
+  text: z.string(),
+  startTime: z.number(),
+  endTime: z.number(),
+  speaker: z.string().nullable(),
+});
+
+export type TaddyPodcast = z.infer<typeof taddyPodcastSchema>;
+export type TaddyEpisode = z.infer<typeof taddyEpisodeSchema>;
+export type TaddyEpisodeWithPodcast = z.infer<
+  typeof taddyEpisodeWithPodcastSchema
+>;
+export type TaddyTranscriptItem = z.infer<typeof taddyTranscriptItemSchema>;
 
 // =============================================================================
 // Queries
 // =============================================================================
 
 const SEARCH_PODCASTS_QUERY = `
-  query SearchPodcasts($term: String!, $limitPerPage: Int) {
-    searchForTerm(term: $term, filterForTypes: PODCASTSERIES, limitPerPage: $limitPerPage) {
+  query SearchPodcasts(
+    $term: String!
+    $page: Int
+    $limitPerPage: Int
+    $filterForGenres: [Genre]
+    $filterForLanguages: [Language]
+    $filterForTotalEpisodesGreaterThan: Int
+    $isSafeMode: Boolean
+    $sortBy: SearchSortOrder
+  ) {
+    searchForTerm(
+      term: $term
+      filterForTypes: PODCASTSERIES
+      page: $page
+      limitPerPage: $limitPerPage
+      filterForGenres: $filterForGenres
+      filterForLanguages: $filterForLanguages
+      filterForTotalEpisodesGreaterThan: $filterForTotalEpisodesGreaterThan
+      isSafeMode: $isSafeMode
+      sortBy: $sortBy
+    ) {
       searchId
       podcastSeries {
         uuid
@@ -96,9 +378,50 @@ const SEARCH_PODCASTS_QUERY = `
         authorName
         imageUrl
         itunesId
+        rssUrl
+        language
         totalEpisodesCount
         genres
       }
+      responseDetails {
+        totalCount
+        pagesCount
+      }
+    }
+  }
+`;
+
+const SEARCH_EPISODES_QUERY = `
+  query SearchEpisodes($term: String!, $page: Int, $limitPerPage: Int) {
+    searchForTerm(
+      term: $term
+      filterForTypes: PODCASTEPISODE
+      page: $page
+      limitPerPage: $limitPerPage
+    ) {
+      searchId
+      podcastEpisodes {
+        uuid
+        name
+        description
+        audioUrl
+        imageUrl
+        duration
+        datePublished
+        seasonNumber
+        episodeNumber
+        guid
+        podcastSeries {
+          uuid
+          name
+          authorName
+          imageUrl
+        }
+      }
+      responseDetails {
+        totalCount
+        pagesCount
+      }
     }
   }
 `;
@@ -120,12 +443,38 @@ const GET_PODCAST_QUERY = `
   }
 `;
 
+const FIND_PODCAST_QUERY = `
+  query FindPodcast($rssUrl: String, $itunesId: Int) {
+    getPodcastSeries(rssUrl: $rssUrl, itunesId: $itunesId) {
+      uuid
+      name
+      description
+      authorName
+      imageUrl
+      itunesId
+      rssUrl
+      language
+      totalEpisodesCount
+      genres
+    }
+  }
+`;
+
 const GET_EPISODES_QUERY = `
-  query GetEpisodes($uuid: ID!, $page: Int!, $limitPerPage: Int!) {
+  query GetEpisodes(
+    $uuid: ID!
+    $page: Int!
+    $limitPerPage: Int!
+    $sortOrder: SortOrder
+  ) {
     getPodcastSeries(uuid: $uuid) {
       uuid
       name
-      episodes(page: $page, limitPerPage: $limitPerPage, sortOrder: LATEST) {
+      episodes(
+        page: $page
+        limitPerPage: $limitPerPage
+        sortOrder: $sortOrder
+      ) {
         uuid
         name
         description
@@ -141,6 +490,29 @@ const GET_EPISODES_QUERY = `
   }
 `;
 
+const GET_EPISODE_QUERY = `
+  query GetEpisode($uuid: ID!) {
+    getPodcastEpisode(uuid: $uuid) {
+      uuid
+      name
+      description
+      audioUrl
+      imageUrl
+      duration
+      datePublished
+      seasonNumber
+      episodeNumber
+      guid
+      podcastSeries {
+        uuid
+        name
+        authorName
+        imageUrl
+      }
+    }
+  }
+`;
+
 const GET_EPISODE_TRANSCRIPT_QUERY = `
   query GetEpisodeTranscript($uuid: ID!) {
     getPodcastEpisode(uuid: $uuid) {
@@ -162,47 +534,175 @@ const GET_EPISODE_TRANSCRIPT_QUERY = `
 // API Functions
 // =============================================================================
 
-interface SearchPodcastsResult {
-  searchForTerm: {
-    searchId: string;
-    podcastSeries: TaddyPodcast[];
+const responseDetailsSchema = z
+  .array(
+    z.object({
+      totalCount: z.number().nullable(),
+      pagesCount: z.number().nullable(),
+    }),
+  )
+  .nullable();
+
+const searchPodcastsResultSchema = z.object({
+  searchForTerm: z.object({
+    searchId: z.string(),
+    podcastSeries: z.array(taddyPodcastSchema),
+    responseDetails: responseDetailsSchema,
+  }),
+});
+
+/**
+ * Map search filters onto searchForTerm arguments.
+ * Unset filters are left undefined so they are omitted from the request.
+ */
+function searchFilterVariables(filters: PodcastSearchFilters) {
+  return {
+    filterForGenres: filters.genres?.length ? filters.genres : undefined,
+    filterForLanguages: filters.languages?.length
+      ? filters.languages
+      : undefined,
+    filterForTotalEpisodesGreaterThan: filters.minEpisodes
+      ? filters.minEpisodes - 1
+      : undefined,
+    isSafeMode: filters.safeMode || undefined,
+    sortBy: filters.sortBy === "popularity" ? "POPULARITY" : undefined,
   };
 }
 
 /**
- * Search for podcasts by term.
+ * Search for podcasts by term, one page at a time.
  */
 export async function searchPodcasts(
   term: string,
-  limit: number = 20,
-): Promise<TaddyPodcast[]> {
-  const data = await taddyQuery<SearchPodcastsResult>(SEARCH_PODCASTS_QUERY, {
-    term,
-    limitPerPage: limit,
-  });
-  return data.searchForTerm.podcastSeries;
+  options: {
+    page?: number;
+    limit?: number;
+    filters?: PodcastSearchFilters;
+  } = {},
+): Promise<PodcastSearchPage> {
+  const { page = 1, limit = 20, filters = {} } = options;
+
+  const data = await taddyQuery(
+    SEARCH_PODCASTS_QUERY,
+    searchPodcastsResultSchema,
+    { term, page, limitPerPage: limit, ...searchFilterVariables(filters) },
+    { cache: "search" },
+  );
+
+  const { searchId, podcastSeries, responseDetails } = data.searchForTerm;
+  const details = responseDetails?.[0];
+
+  return {
+    searchId,
+    podcasts: podcastSeries,
+    page,
+    hasMore: details?.pagesCount
+      ? page < details.pagesCount
+      : podcastSeries.length === limit,
+    totalCount: details?.totalCount ?? null,
+  };
 }
 
-interface GetPodcastResult {
-  getPodcastSeries: TaddyPodcast;
+const searchEpisodesResultSchema = z.object({
+  searchForTerm: z.object({
+    searchId: z.string(),
+    podcastEpisodes: z.array(
+      taddyEpisodeSchema.extend({
+        podcastSeries: taddyEpisodePodcastSchema.nullable(),
+      }),
+    ),
+    responseDetails: responseDetailsSchema,
+  }),
+});
+
+/**
+ * Search for episodes across all podcasts, one page at a time.
+ */
+export async function searchEpisodes(
+  term: string,
+  options: { page?: number; limit?: number } = {},
+): Promise<EpisodeSearchPage> {
+  const { page = 1, limit = 20 } = options;
+
+  const data = await taddyQuery(
+    SEARCH_EPISODES_QUERY,
+    searchEpisodesResultSchema,
+    { term, page, limitPerPage: limit },
+    { cache: "search" },
+  );
+
+  const { searchId, podcastEpisodes, responseDetails } = data.searchForTerm;
+  const details = responseDetails?.[0];
+
+  return {
+    searchId,
+    // Episodes whose series Taddy no longer has can't be added to a library
+    episodes: podcastEpisodes.flatMap(({ podcastSeries, ...episode }) =>
+      podcastSeries ? [{ ...episode, podcast: podcastSeries }] : [],
+    ),
+    page,
+    hasMore: details?.pagesCount
+      ? page < details.pagesCount
+      : podcastEpisodes.length === limit,
+    totalCount: details?.totalCount ?? null,
+  };
 }
 
+const getPodcastResultSchema = z.object({
+  getPodcastSeries: taddyPodcastSchema.nullable(),
+});
+
 /**
  * Get a podcast by its Taddy UUID.
+ * Throws TaddyNotFoundError if Taddy has no such podcast.
  */
 export async function getPodcast(uuid: string): Promise<TaddyPodcast> {
-  const data = await taddyQuery<GetPodcastResult>(GET_PODCAST_QUERY, { uuid });
+  const data = await taddyQuery(
+    GET_PODCAST_QUERY,
+    getPodcastResultSchema,
+    { uuid },
+    { cache: "podcast" },
+  );
+
+  if (!data.getPodcastSeries) {
+    throw new TaddyNotFoundError(`Podcast ${uuid} not found`);
+  }
+
   return data.getPodcastSeries;
 }
 
-interface GetEpisodesResult {
-  getPodcastSeries: {
-    uuid: string;
-    name: string;
-    episodes: TaddyEpisode[];
-  };
+/**
+ * Look up a podcast by its RSS feed URL or iTunes ID.
+ * Returns null if Taddy does not know the podcast.
+ */
+export async function findPodcast(lookup: {
+  rssUrl?: string;
+  itunesId?: number;
+}): Promise<TaddyPodcast | null> {
+  if (!lookup.rssUrl && !lookup.itunesId) {
+    return null;
+  }
+
+  const data = await taddyQuery(
+    FIND_PODCAST_QUERY,
+    getPodcastResultSchema,
+    { rssUrl: lookup.rssUrl, itunesId: lookup.itunesId },
+    { cache: "podcast" },
+  );
+
+  return data.getPodcastSeries;
 }
 
+const getEpisodesResultSchema = z.object({
+  getPodcastSeries: z
+    .object({
+      uuid: z.string(),
+      name: z.string(),
+      episodes: z.array(taddyEpisodeSchema),
+    })
+    .nullable(),
+});
+
 /**
  * Get episodes for a podcast with pagination.
  */
@@ -210,44 +710,106 @@ export async function getEpisodes(
   podcastUuid: string,
   page: number = 1,
   limit: number = 25,
+  sort: EpisodeSort = "newest",
 ): Promise<TaddyEpisode[]> {
-  const data = await taddyQuery<GetEpisodesResult>(GET_EPISODES_QUERY, {
-    uuid: podcastUuid,
-    page,
-    limitPerPage: limit,
-  });
+  const data = await taddyQuery(
+    GET_EPISODES_QUERY,
+    getEpisodesResultSchema,
+    {
+      uuid: podcastUuid,
+      page,
+      limitPerPage: limit,
+      sortOrder: sort === "oldest" ? "OLDEST" : "LATEST",
+    },
+    { cache: "episodes" },
+  );
+
+  if (!data.getPodcastSeries) {
+    throw new TaddyNotFoundError(`Podcast ${podcastUuid} not found`);
+  }
+
   return data.getPodcastSeries.episodes;
 }
 
-interface GetEpisodeTranscriptResult {
-  getPodcastEpisode: {
-    uuid: string;
-    name: string;
-    taddyTranscribeStatus: string | null;
-    transcript: string | null;
-    transcriptWithSpeakersAndTimecodes: TaddyTranscriptItem[] | null;
-  };
+const getEpisodeResultSchema = z.object({
+  getPodcastEpisode: taddyEpisodeSchema
+    .extend({ podcastSeries: taddyEpisodePodcastSchema.nullable() })
+    .nullable(),
+});
+
+/**
+ * Get an episode, with the podcast it belongs to, by its Taddy UUID.
+ * Throws TaddyEpisodeNotFoundError if Taddy has no such episode.
+ */
+export async function getEpisode(
+  uuid: string,
+): Promise<TaddyEpisodeWithPodcast> {
+  const data = await taddyQuery(
+    GET_EPISODE_QUERY,
+    getEpisodeResultSchema,
+    { uuid },
+    { cache: "episodes" },
+  );
+
+  if (!data.getPodcastEpisode?.podcastSeries) {
+    throw new TaddyEpisodeNotFoundError(`Episode ${uuid} not found`);
+  }
+
+  const { podcastSeries, ...episode } = data.getPodcastEpisode;
+  return { ...episode, podcast: podcastSeries };
 }
 
+const getEpisodeTranscriptResultSchema = z.object({
+  getPodcastEpisode: z
+    .object({
+      uuid: z.string(),
+      name: z.string(),
+      taddyTranscribeStatus: z.string().nullable(),
+      transcript: z.string().nullable(),
+      transcriptWithSpeakersAndTimecodes: z
+        .array(taddyTranscriptItemSchema)
+        .nullable(),
+    })
+    .nullable(),
+});
+
 /**
  * Get transcript for an episode.
- * Returns null if transcript is not available.
+ * The fields are null if no transcript is available; throws if the episode
+ * does not exist.
  */
-export async function getEpisodeTranscript(uuid: string): Promise<{
-  status: string | null;
-  transcript: string | null;
-  segments: TaddyTranscriptItem[] | null;
-} | null> {
-  const data = await taddyQuery<GetEpisodeTranscriptResult>(
+export async function getEpisodeTranscript(
+  uuid: string,
+): Promise<EpisodeTranscript> {
+  const data = await taddyQuery(
     GET_EPISODE_TRANSCRIPT_QUERY,
+    getEpisodeTranscriptResultSchema,
     { uuid },
+    { cache: "transcript" },
   );
 
   const episode = data.getPodcastEpisode;
 
+  if (!episode) {
+    throw new TaddyEpisodeNotFoundError(`Episode ${uuid} not found`);
+  }
+
   return {
     status: episode.taddyTranscribeStatus,
     transcript: episode.transcript,
     segments: episode.transcriptWithSpeakersAndTimecodes,
   };
 }
+
+/**
+ * The Taddy API as a PodcastDirectory.
+ */
+export const taddyDirectory: PodcastDirectory = {
+  searchPodcasts,
+  searchEpisodes,
+  getPodcast,
+  findPodcast,
+  getEpisodes,
+  getEpisode,
+  getEpisodeTranscript,
+};
@@ -0,0 +1,216 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import type { EpisodeTranscript } from "@/lib/podcast-directory";
+import {
+  chunkTranscript,
+  type TranscriptChunk,
+} from "@/lib/transcript-chunker";
+
+function fixture(name: string): EpisodeTranscript {
+  return JSON.parse(
+    readFileSync(`fixtures/transcripts/${name}.json`, "utf8"),
+  ) as EpisodeTranscript;
+}
+
+// Chunk sizes are bounded by the summed estimates of their sentences, each
+// rounded up, so a chunk's non-whitespace text always fits the budget
+function fitsBudget(chunk: TranscriptChunk, maxTokens: number): boolean {
+  return chunk.text.replace(/\s+/g, "").length <= maxTokens * 4;
+}
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+describe("chunkTranscript", () => {
+  describe("with timecoded segments", () => {
+    const interview = fixture("interview");
+
+    it("packs whole sentences into labelled chunks", () => {
+      const chunks = chunkTranscript(interview, {
+        maxTokens: 20,
+        overlapTokens: 0,
+      });
+
+      expect(chunks.map((c) => c.text)).toEqual([
+        "Host: Welcome back to the show.",
+        "Host: Today I'm joined by Dr. Ada Lane, who studies how sleep shapes memory.",
+        "Host: Thanks for coming on.\nGuest: Happy to be here.",
+        "Guest: We look at small habits, e.g. reading before bed, and how they\nHost: Interesting.",
+        "Host: So what did you find?",
+        "Guest: People who read before bed remembered more of it the next day.",
+      ]);
+      expect(chunks.map((c) => c.index)).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it("does not end sentences at abbreviations", () => {
+      const text = chunkTranscript(interview, { maxTokens: 20 })
+        .map((c) => c.text)
+        .join("\n");
+
+      expect(text).toContain("Dr. Ada Lane");
+      expect(text).toContain("e.g. reading before bed");
+    });
+
+    it("times a sentence spanning segments from both", () => {
+      const [, spanning] = chunkTranscript(interview, {
+        maxTokens: 20,
+        overlapTokens: 0,
+      });
+
+      // Starts partway through the first segment, ends partway through the second
+      expect(spanning.startTime).toBeGreaterThan(0);
+      expect(spanning.startTime).toBeLessThan(8);
+      expect(spanning.endTime).toBeGreaterThan(8);
+      expect(spanning.endTime).toBeLessThan(14);
+      expect(spanning.speakers).toEqual(["Host"]);
+    });
+
+    it("ends an unfinished sentence when the speaker changes", () => {
+      const chunks = chunkTranscript(interview, {
+        maxTokens: 16,
+        overlapTokens: 0,
+      });
+      const i = chunks.findIndex((c) => c.text.endsWith("and how they"));
+
+      // The sentence ends with its speaker's segment, not the next speaker's
+      expect(chunks[i].text).toBe(
+        "Guest: We look at small habits, e.g. reading before bed, and how they",
+      );
+      expect(chunks[i].endTime).toBe(22);
+      expect(chunks[i + 1].text).toMatch(/^Host: Interesting\./);
+      expect(chunks[i + 1].startTime).toBe(22);
+    });
+
+    it("keeps every chunk within the token budget", () => {
+      for (const maxTokens of [20, 40, 400]) {
+        for (const chunk of chunkTranscript(interview, { maxTokens })) {
+          expect(fitsBudget(chunk, maxTokens)).toBe(true);
+        }
+      }
+    });
+
+    it("fits a short transcript in one chunk by default", () => {
+      const [chunk, ...rest] = chunkTranscript(interview);
+
+      expect(rest).toEqual([]);
+      expect(chunk.startTime).toBe(0);
+      expect(chunk.endTime).toBe(40);
+      expect(chunk.speakers).toEqual(["Host", "Guest"]);
+    });
+  });
+
+  describe("overlap", () => {
+    const monologue = fixture("monologue");
+
+    it("repeats trailing sentences of the previous chunk", () => {
+      const chunks = chunkTranscript(monologue, {
+        maxTokens: 40,
+        overlapTokens: 15,
+      });
+
+      expect(chunks.length).toBeGreaterThan(2);
+      for (let i = 1; i < chunks.length; i++) {
+        const previous = chunks[i - 1].text.split(/(?<=\.) /);
+        expect(chunks[i].text.startsWith(previous[previous.length - 1])).toBe(
+          true,
+        );
+      }
+    });
+
+    it("keeps chunks within the budget including the overlap", () => {
+      for (const chunk of chunkTranscript(monologue, {
+        maxTokens: 40,
+        overlapTokens: 15,
+      })) {
+        expect(fitsBudget(chunk, 40)).toBe(true);
+      }
+    });
+
+    it("repeats nothing without an overlap budget", () => {
+      const chunks = chunkTranscript(monologue, {
+        maxTokens: 40,
+        overlapTokens: 0,
+      });
+
+      expect(words(chunks.map((c) => c.text).join(" "))).toEqual(
+        words(monologue.transcript!),
+      );
+    });
+  });
+
+  describe("oversized unpunctuated runs", () => {
+    const unpunctuated = fixture("unpunctuated");
+
+    it("splits them at word boundaries within the budget", () => {
+      const chunks = chunkTranscript(unpunctuated, {
+        maxTokens: 100,
+        overlapTokens: 0,
+      });
+
+      expect(chunks.length).toBeGreaterThan(5);
+      for (const chunk of chunks) {
+        expect(fitsBudget(chunk, 100)).toBe(true);
+      }
+      expect(words(chunks.map((c) => c.text).join(" "))).toEqual(
+        words(unpunctuated.transcript!),
+      );
+    });
+
+    it("spreads a timed run's time range across its parts", () => {
+      const chunks = chunkTranscript(
+        {
+          ...unpunctuated,
+          segments: [
+            {
+              text: unpunctuated.transcript!,
+              startTime: 60,
+              endTime: 360,
+              speaker: "Host",
+            },
+          ],
+        },
+        { maxTokens: 100, overlapTokens: 0 },
+      );
+
+      expect(chunks[0].startTime).toBe(60);
+      expect(chunks[chunks.length - 1].endTime).toBe(360);
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i].startTime!).toBeGreaterThan(chunks[i - 1].startTime!);
+        expect(chunks[i].startTime!).toBeGreaterThanOrEqual(
+          chunks[i - 1].endTime!,
+        );
+      }
+    });
+  });
+
+  describe("without segments", () => {
+    const monologue = fixture("monologue");
+
+    it("falls back to the plain transcript", () => {
+      for (const segments of [null, []]) {
+        const chunks = chunkTranscript(
+          { ...monologue, segments },
+          { maxTokens: 40 },
+        );
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks[0].text).toMatch(/^Local-first apps keep your data/);
+        for (const chunk of chunks) {
+          expect(chunk.startTime).toBeNull();
+          expect(chunk.endTime).toBeNull();
+          expect(chunk.speakers).toEqual([]);
+        }
+      }
+    });
+
+    it("returns no chunks for an empty transcript", () => {
+      expect(
+        chunkTranscript({ status: null, transcript: null, segments: null }),
+      ).toEqual([]);
+      expect(
+        chunkTranscript({ status: null, transcript: "  ", segments: [] }),
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import type { EpisodeTranscript } from "@/lib/podcast-directory";
+
+/** A piece of a transcript that is embedded and retrieved as one unit. */
+export interface TranscriptChunk {
+  index: number;
+  text: string;
+  /** Start and end of the chunk in seconds, when the transcript has timecodes. */
+  startTime: number | null;
+  endTime: number | null;
+  /** Speakers in the chunk, in order of first appearance. */
+  speakers: string[];
+}
+
+export interface ChunkOptions {
+  /** Upper bound on a chunk's size, in estimated tokens. */
+  maxTokens?: number;
+  /**
+   * Tokens of trailing sentences from the previous chunk repeated at the
+   * start of the next, so an answer that spans a boundary is still found.
+   */
+  overlapTokens?: number;
+}
+
+const DEFAULT_MAX_TOKENS = 400;
+const DEFAULT_OVERLAP_TOKENS = 60;
+
+// Words ending in a period that do not end a sentence
+const ABBREVIATIONS = new Set([
+  "dr",
+  "mr",
+  "mrs",
+  "ms",
+  "prof",
+  "sr",
+  "jr",
+  "st",
+  "vs",
+  "etc",
+  "e.g",
+  "i.e",
+  "inc",
+  "no",
+  "approx",
+]);
+
+/**
+ * Rough token count for English text. Close enough to bound chunk sizes
+ * without shipping a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** A sentence, or a run of text that is never split further. */
+interface Sentence {
+  text: string;
+  startTime: number | null;
+  endTime: number | null;
+  speaker: string | null;
+}
+
+/** A sentence within a string, by character offsets. */
+interface SentencePiece {
+  text: string;
+  start: number;
+  end: number;
+  /** Whether the piece ends with terminal punctuation. */
+  complete: boolean;
+}
+
+/**
+ * Split text into sentences, with character offsets. The last piece is
+ * `complete: false` when the text does not end with terminal punctuation,
+ * e.g. when a sentence continues in the next transcript segment.
+ */
+function splitSentences(text: string): SentencePiece[] {
+  const pieces: SentencePiece[] = [];
+  const boundary = /[.!?…]+["'”’)\]]*(?=\s|$)/g;
+  let start = 0;
+
+  for (const match of text.matchAll(boundary)) {
+    const end = match.index + match[0].length;
+    const lastWord = text
+      .slice(start, match.index + 1)
+      .split(/\s+/)
+      .pop()!
+      .replace(/\.$/, "")
+      .toLowerCase();
+
+    // "Dr. Smith", "e.g. this", "J. R. R."
+    if (
+      match[0] === "." &&
+      (ABBREVIATIONS.has(lastWord) || /^[a-z]$/.test(lastWord))
+    ) {
+      continue;
+    }
+
+    pushPiece(pieces, text, start, end, true);
+    start = end;
+  }
+
+  pushPiece(pieces, text, start, text.length, false);
+  return pieces;
+}
+
+function pushPiece(
+  pieces: SentencePiece[],
+  text: string,
+  start: number,
+  end: number,
+  complete: boolean,
+) {
+  const piece = text.slice(start, end);
+  const trimmed = piece.trim();
+  if (!trimmed) return;
+
+  const offset = start + piece.indexOf(trimmed);
+  pieces.push({
+    text: trimmed,
+    start: offset,
+    end: offset + trimmed.length,
+    complete,
+  });
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
+
+/**
+ * Turn timecoded segments into sentences. A sentence that runs across
+ * segments takes the first segment's start and the last one's end; one of
+ * several sentences within a segment gets a time interpolated from its
+ * position in the segment's text. A change of speaker always ends a
+ * sentence.
+ */
+function segmentSentences(
+  segments: NonNullable<EpisodeTranscript["segments"]>,
+): Sentence[] {
+  const sentences: Sentence[] = [];
+  let pending: Sentence | null = null;
+
+  const flush = () => {
+    if (pending) sentences.push(pending);
+    pending = null;
+  };
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+
+    if (pending && pending.speaker !== segment.speaker) {
+      flush();
+    }
+
+    const span = segment.endTime - segment.startTime;
+
+    for (const piece of splitSentences(text)) {
+      const startTime = roundTime(
+        segment.startTime + (span * piece.start) / text.length,
+      );
+      const endTime = roundTime(
+        segment.startTime + (span * piece.end) / text.length,
+      );
+
+      if (pending) {
+        pending.text = `${pending.text} ${piece.text}`;
+        pending.endTime = endTime;
+      } else {
+        pending = {
+          text: piece.text,
+          startTime,
+          endTime,
+          speaker: segment.speaker,
+        };
+      }
+
+      if (piece.complete) {
+        flush();
+      }
+    }
+  }
+
+  flush();
+  return sentences;
+}
+
+/**
+ * Split a sentence too long for one chunk at word boundaries. Only
+ * happens for unpunctuated transcripts, where "sentences" can run for
+ * minutes.
+ */
+function splitOversized(sentence: Sentence, maxTokens: number): Sentence[] {
+  if (estimateTokens(sentence.text) <= maxTokens) {
+    return [sentence];
+  }
+
+  const words = sentence.text.split(/\s+/);
+  const parts: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    const next = current ? `${current} ${word}` : word;
+    if (current && estimateTokens(next) > maxTokens) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = next;
+    }
+  }
+  if (current) parts.push(current);
+
+  const { startTime, endTime } = sentence;
+  const span =
+    startTime !== null && endTime !== null ? endTime - startTime : null;
+  let offset = 0;
+
+  return parts.map((text) => {
+    const start = offset;
+    offset += text.length + 1;
+
+    return {
+      text,
+      startTime:
+        span !== null
+          ? roundTime(startTime! + (span * start) / sentence.text.length)
+          : null,
+      endTime:
+        span !== null
+          ? roundTime(
+              startTime! +
+                (span * Math.min(offset - 1, sentence.text.length)) /
+                  sentence.text.length,
+            )
+          : null,
+      speaker: sentence.speaker,
+    };
+  });
+}
+
+function buildChunk(index: number, sentences: Sentence[]): TranscriptChunk {
+  const speakers: string[] = [];
+  let text = "";
+  let lastSpeaker: string | null = null;
+
+  for (const sentence of sentences) {
+    if (sentence.speaker && !speakers.includes(sentence.speaker)) {
+      speakers.push(sentence.speaker);
+    }
+
+    // Label turns so the model can tell who said what
+    if (sentence.speaker && sentence.speaker !== lastSpeaker) {
+      text += `${text ? "\n" : ""}${sentence.speaker}: ${sentence.text}`;
+    } else {
+      text += `${text ? " " : ""}${sentence.text}`;
+    }
+    lastSpeaker = sentence.speaker;
+  }
+
+  return {
+    index,
+    text,
+    startTime: sentences[0].startTime,
+    endTime: sentences[sentences.length - 1].endTime,
+    speakers,
+  };
+}
+
+/**
+ * Split a transcript into chunks of whole sentences, each at most
+ * `maxTokens` estimated tokens, with up to `overlapTokens` of trailing
+ * sentences repeated from the previous chunk. Chunks keep the time range
+ * and speakers of their sentences.
+ *
+ * Uses the timecoded segments when there are any, otherwise the plain
+ * transcript text (with no times or speakers).
+ */
+export function chunkTranscript(
+  transcript: EpisodeTranscript,
+  options: ChunkOptions = {},
+): TranscriptChunk[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const overlapTokens = Math.min(
+    options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS,
+    Math.floor(maxTokens / 2),
+  );
+
+  const sentences: Sentence[] = transcript.segments?.length
+    ? segmentSentences(transcript.segments)
+    : splitSentences(transcript.transcript ?? "").map((piece) => ({
+        text: piece.text,
+        startTime: null,
+        endTime: null,
+        speaker: null,
+      }));
+
+  const units = sentences.flatMap((s) => splitOversized(s, maxTokens));
+  const chunks: TranscriptChunk[] = [];
+  let current: Sentence[] = [];
+  let currentTokens = 0;
+  // Sentences in `current` carried over from the previous chunk
+  let carried = 0;
+
+  for (const unit of units) {
+    const tokens = estimateTokens(unit.text);
+
+    if (currentTokens + tokens > maxTokens && current.length > carried) {
+      chunks.push(buildChunk(chunks.length, current));
+
+      // Repeat trailing sentences that fit in the overlap budget
+      const overlap: Sentence[] = [];
+      let overlapSize = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        const size = estimateTokens(current[i].text);
+        if (overlapSize + size > overlapTokens) break;
+        overlap.unshift(current[i]);
+        overlapSize += size;
+      }
+
+      // Drop overlap that would push the next sentence over the limit
+      while (overlap.length > 0 && overlapSize + tokens > maxTokens) {
+        overlapSize -= estimateTokens(overlap.shift()!.text);
+      }
+
+      current = overlap;
+      currentTokens = overlapSize;
+      carried = overlap.length;
+    }
+
+    current.push(unit);
+    currentTokens += tokens;
+  }
+
+  if (current.length > carried) {
+    chunks.push(buildChunk(chunks.length, current));
+  }
+
+  return chunks;
+}
@@ -0,0 +1,417 @@
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  getPodcastDirectory,
+  type EpisodeTranscript,
+} from "@/lib/podcast-directory";
+import {
+  getTranscriptionProvider,
+  SYNC_EPISODE_MAX_DURATION_SECONDS,
+  TranscriptionError,
+} from "@/lib/transcription";
+import { chunkTranscript } from "@/lib/transcript-chunker";
+import { EmbeddingError, embedTexts } from "@/lib/embeddings";
+import {
+  replaceEpisodeChunks,
+  TRANSCRIPTS_COLLECTION,
+  VectorStoreError,
+} from "@/lib/vector-store";
+import { TaddyError } from "@/lib/taddy-errors";
+
+/**
+ * Sync state of an episode's transcript:
+ *
+ *   not_synced → queued → syncing → synced
+ *                            ↓
+ *                          failed → (retry) syncing
+ */
+export type TranscriptStatus =
+  "not_synced" | "queued" | "syncing" | "synced" | "failed";
+
+// A transcript left in "syncing" this long is assumed to belong to a run
+// that died, and may be claimed again. No sync-episode run lasts longer.
+const STALE_SYNC_MS = SYNC_EPISODE_MAX_DURATION_SECONDS * 1000;
+
+export interface SyncEpisodeResult {
+  episodeId: string;
+  status: TranscriptStatus;
+  /** False when another run had already synced, or is syncing, the episode. */
+  processed: boolean;
+  chunkCount: number | null;
+}
+
+/**
+ * A transcript could not be synced. The message is safe to show to users
+ * and is stored on the transcript row.
+ */
+export class TranscriptSyncError extends Error {
+  /** Whether trying again later could succeed. */
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean = true) {
+    super(message);
+    this.name = "TranscriptSyncError";
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Give a user access to an episode's transcript. Chat only searches
+ * episodes whose transcript is synced, so linking before the sync
+ * finishes is safe.
+ */
+async function linkUser(userProfileId: string, episodeId: string) {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from("user_synced_episodes")
+    .upsert(
+      { user_id: userProfileId, episode_id: episodeId },
+      { onConflict: "user_id,episode_id", ignoreDuplicates: true },
+    );
+
+  if (error) {
+    console.error("Error linking synced episode:", error);
+    throw new TranscriptSyncError("Failed to link episode");
+  }
+}
+
+/**
+ * Link a user to every episode of a podcast whose transcript is already
+ * synced, and return those episodes' ids. Lets a bulk sync skip them
+ * without starting a run per episode.
+ */
+export async function linkSyncedEpisodes(
+  userProfileId: string,
+  podcastId: string,
+): Promise<Set<string>> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("transcripts")
+    .select("episode_id, episode:episodes!inner(podcast_id)")
+    .eq("episode.podcast_id", podcastId)
+    .eq("status", "synced");
+
+  if (error) {
+    console.error("Error fetching synced transcripts:", error);
+    throw new TranscriptSyncError("Failed to fetch transcripts");
+  }
+
+  if (data.length > 0) {
+    const { error: linkError } = await supabase
+      .from("user_synced_episodes")
+      .upsert(
+        data.map((row) => ({
+          user_id: userProfileId,
+          episode_id: row.episode_id,
+        })),
+        { onConflict: "user_id,episode_id", ignoreDuplicates: true },
+      );
+
+    if (linkError) {
+      console.error("Error linking synced episodes:", linkError);
+      throw new TranscriptSyncError("Failed to link episodes");
+    }
+  }
+
+  return new Set(data.map((row) => row.episode_id));
+}
+
+/**
+ * The message shown to users for a failed sync. Only errors whose messages
+ * are safe to show keep them.
+ */
+function syncErrorMessage(error: unknown): string {
+  if (
+    error instanceof TranscriptSyncError ||
+    error instanceof TranscriptionError ||
+    error instanceof EmbeddingError ||
+    error instanceof VectorStoreError
+  ) {
+    return error.message;
+  }
+  if (error instanceof TaddyError) {
+    return error.userMessage;
+  }
+  return "Transcript sync failed";
+}
+
+/**
+ * The transcript status of each of the given episodes. Episodes with no
+ * transcript row are left out.
+ */
+export async function getTranscriptStatuses(
+  episodeIds: string[],
+): Promise<Map<string, TranscriptStatus>> {
+  const { data, error } = await createAdminClient()
+    .from("transcripts")
+    .select("episode_id, status")
+    .in("episode_id", episodeIds);
+
+  if (error) {
+    console.error("Error fetching transcripts:", error);
+    throw new TranscriptSyncError("Failed to fetch transcripts");
+  }
+
+  return new Map(data.map((row) => [row.episode_id, row.status]));
+}
+
+/**
+ * Move the episode's transcript to "syncing" if no other run owns it.
+ * Returns false when it is already synced or being synced elsewhere. The
+ * conditional update makes the claim atomic, so concurrent runs for the
+ * same episode never both do the work.
+ */
+async function claimTranscript(episodeId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { error: insertError } = await supabase
+    .from("transcripts")
+    .upsert(
+      { episode_id: episodeId, status: "queued" },
+      { onConflict: "episode_id", ignoreDuplicates: true },
+    );
+
+  if (insertError) {
+    console.error("Error creating transcript:", insertError);
+    throw new TranscriptSyncError("Failed to create transcript");
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_SYNC_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from("transcripts")
+    .update({
+      status: "syncing",
+      error_message: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("episode_id", episodeId)
+    .or(
+      `status.in.(not_synced,queued,failed),and(status.eq.syncing,updated_at.lt."${staleBefore}")`,
+    )
+    .select("id");
+
+  if (error) {
+    console.error("Error claiming transcript:", error);
+    throw new TranscriptSyncError("Failed to update transcript");
+  }
+
+  return data.length > 0;
+}
+
+async function updateTranscript(
+  episodeId: string,
+  fields: {
+    status: TranscriptStatus;
+    source?: string;
+    error_message?: string | null;
+    full_text?: string;
+    chunk_count?: number;
+    chroma_collection_id?: string;
+  },
+) {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from("transcripts")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("episode_id", episodeId);
+
+  if (error) {
+    console.error("Error updating transcript:", error);
+    throw new TranscriptSyncError("Failed to update transcript");
+  }
+}
+
+async function getTranscriptStatus(
+  episodeId: string,
+): Promise<{ status: TranscriptStatus; chunk_count: number | null }> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("transcripts")
+    .select("status, chunk_count")
+    .eq("episode_id", episodeId)
+    .single();
+
+  if (error || !data) {
+    console.error("Error fetching transcript:", error);
+    throw new TranscriptSyncError("Failed to fetch transcript");
+  }
+
+  return data;
+}
+
+/**
+ * Get an episode's transcript from the podcast directory, or from the
+ * configured transcription provider when the directory has none. Returns
+ * the name of the source that produced it.
+ */
+async function fetchTranscript(episode: {
+  taddy_uuid: string;
+  audio_url: string | null;
+}): Promise<{ source: string; transcript: EpisodeTranscript }> {
+  const transcript = await getPodcastDirectory().getEpisodeTranscript(
+    episode.taddy_uuid,
+  );
+
+  if (transcript.segments?.length || transcript.transcript?.trim()) {
+    return { source: "taddy", transcript };
+  }
+
+  // Taddy is transcribing it already, so wait rather than pay for another
+  if (transcript.status === "PROCESSING") {
+    throw new TranscriptSyncError(
+      "A transcript is still being generated for this episode",
+    );
+  }
+
+  const provider = getTranscriptionProvider();
+
+  if (!provider || !episode.audio_url) {
+    throw new TranscriptSyncError(
+      "No transcript is available for this episode",
+      false,
+    );
+  }
+
+  const segments = await provider.transcribe(episode.audio_url);
+
+  return {
+    source: provider.name,
+    transcript: {
+      status: null,
+      transcript: segments.map((segment) => segment.text).join(" "),
+      segments,
+    },
+  };
+}
+
+/**
+ * Fetch, chunk and embed an episode's transcript and write it to the
+ * vector store. Returns the transcript's source, full text and number of
+ * chunks written.
+ */
+async function indexTranscript(episode: {
+  taddy_uuid: string;
+  name: string;
+  audio_url: string | null;
+  podcast: { taddy_uuid: string; name: string };
+}): Promise<{ source: string; fullText: string; chunkCount: number }> {
+  const { source, transcript } = await fetchTranscript(episode);
+
+  const chunks = chunkTranscript(transcript);
+  if (chunks.length === 0) {
+    throw new TranscriptSyncError(
+      "No transcript is available for this episode",
+      false,
+    );
+  }
+
+  const embeddings = await embedTexts(chunks.map((chunk) => chunk.text));
+
+  await replaceEpisodeChunks(
+    episode.taddy_uuid,
+    chunks.map((chunk, i) => ({
+      text: chunk.text,
+      embedding: embeddings[i],
+      metadata: {
+        episode_uuid: episode.taddy_uuid,
+        podcast_uuid: episode.podcast.taddy_uuid,
+        podcast_name: episode.podcast.name,
+        episode_name: episode.name,
+        chunk_index: chunk.index,
+        start_time: chunk.startTime,
+        end_time: chunk.endTime,
+        speaker: chunk.speakers.join(", ") || null,
+      },
+    })),
+  );
+
+  return {
+    source,
+    fullText:
+      transcript.transcript ?? chunks.map((chunk) => chunk.text).join("\n\n"),
+    chunkCount: chunks.length,
+  };
+}
+
+/**
+ * Sync a registry episode's transcript, linking it to the user who asked
+ * for it. Safe to call for the same episode from several runs at once:
+ * only the run that claims the transcript does the work, and an episode
+ * that is already synced is only linked.
+ */
+export async function syncEpisodeTranscript(
+  episodeId: string,
+  userProfileId?: string,
+): Promise<SyncEpisodeResult> {
+  const supabase = createAdminClient();
+
+  const { data: episode, error } = await supabase
+    .from("episodes")
+    .select(
+      "id, taddy_uuid, name, audio_url, podcast:podcasts!inner(taddy_uuid, name)",
+    )
+    .eq("id", episodeId)
+    .single()
+    .overrideTypes<
+      {
+        id: string;
+        taddy_uuid: string;
+        name: string;
+        audio_url: string | null;
+        podcast: { taddy_uuid: string; name: string };
+      },
+      { merge: false }
+    >();
+
+  if (error || !episode) {
+    console.error("Error fetching episode:", error);
+    throw new TranscriptSyncError("Episode not found", false);
+  }
+
+  if (userProfileId) {
+    await linkUser(userProfileId, episode.id);
+  }
+
+  if (!(await claimTranscript(episode.id))) {
+    const current = await getTranscriptStatus(episode.id);
+    return {
+      episodeId: episode.id,
+      status: current.status,
+      processed: false,
+      chunkCount: current.chunk_count,
+    };
+  }
+
+  try {
+    const { source, fullText, chunkCount } = await indexTranscript(episode);
+
+    await updateTranscript(episode.id, {
+      status: "synced",
+      source,
+      error_message: null,
+      full_text: fullText,
+      chunk_count: chunkCount,
+      chroma_collection_id: TRANSCRIPTS_COLLECTION,
+    });
+
+    return {
+      episodeId: episode.id,
+      status: "synced",
+      processed: true,
+      chunkCount,
+    };
+  } catch (error) {
+    console.error("Error syncing transcript:", episode.id, error);
+
+    await updateTranscript(episode.id, {
+      status: "failed",
+      error_message: syncErrorMessage(error),
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,78 @@
+import type { TaddyTranscriptItem } from "@/lib/taddy";
+import { deepgramProvider } from "@/lib/deepgram";
+import { createWhisperCppProvider } from "@/lib/whisper-cpp";
+
+/**
+ * Produces a timecoded transcript from an episode's audio, for episodes
+ * the podcast directory has no transcript for.
+ */
+export interface TranscriptionProvider {
+  /** Recorded as the transcript's `source`. */
+  name: string;
+  /** Transcribe the audio at `audioUrl`, in the directory's segment shape. */
+  transcribe(audioUrl: string): Promise<TaddyTranscriptItem[]>;
+}
+
+/**
+ * Transcription failed. The message is safe to show to users.
+ */
+export class TranscriptionError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "TranscriptionError";
+  }
+}
+
+/**
+ * Longest a provider may take to transcribe one episode, download
+ * included. whisper.cpp runs at a few times real time on CPU, so this
+ * allows for episodes of several hours.
+ */
+export const TRANSCRIBE_TIMEOUT_MS = 4 * 60 * 60 * 1000;
+
+/**
+ * Longest a sync-episode run may take: a transcription, plus time to
+ * fetch, embed and store the transcript.
+ */
+export const SYNC_EPISODE_MAX_DURATION_SECONDS =
+  TRANSCRIBE_TIMEOUT_MS / 1000 + 30 * 60;
+
+let provider: TranscriptionProvider | null | undefined;
+
+/**
+ * Get the configured fallback transcription provider, or null if
+ * transcription is turned off.
+ *
+ * Set TRANSCRIPTION_PROVIDER to "deepgram", "whisper-cpp" or "none".
+ * Defaults to Deepgram when DEEPGRAM_API_KEY is set, otherwise none.
+ */
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  if (provider !== undefined) {
+    return provider;
+  }
+
+  const configured =
+    process.env.TRANSCRIPTION_PROVIDER ??
+    (process.env.DEEPGRAM_API_KEY ? "deepgram" : "none");
+
+  switch (configured) {
+    case "deepgram":
+      provider = deepgramProvider;
+      break;
+    case "whisper-cpp":
+      provider = createWhisperCppProvider({
+        binary: process.env.WHISPER_CPP_BIN ?? "whisper-cli",
+        model: process.env.WHISPER_CPP_MODEL ?? "models/ggml-base.en.bin",
+        ffmpeg: process.env.FFMPEG_BIN ?? "ffmpeg",
+        threads: Number(process.env.WHISPER_CPP_THREADS) || undefined,
+      });
+      break;
+    case "none":
+      provider = null;
+      break;
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${configured}`);
+  }
+
+  return provider;
+}
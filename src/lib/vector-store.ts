@@ -0,0 +1,216 @@
+import { ChromaClient, CloudClient, type Collection } from "chromadb";
+import { z } from "zod";
+import {
+  EmbeddingError,
+  getEmbeddingProvider,
+  openAIEmbeddingProvider,
+} from "@/lib/embeddings";
+
+/** Chroma collection holding every synced transcript's chunks. */
+export const TRANSCRIPTS_COLLECTION =
+  process.env.CHROMA_COLLECTION ?? "podcast_transcripts";
+
+// Records sent per Chroma request
+const UPSERT_BATCH_SIZE = 100;
+
+// Chroma may drop null metadata values, so missing keys read as null
+const transcriptChunkMetadataSchema = z.object({
+  episode_uuid: z.string(),
+  podcast_uuid: z.string(),
+  podcast_name: z.string(),
+  episode_name: z.string(),
+  chunk_index: z.number(),
+  start_time: z.number().nullable().default(null),
+  end_time: z.number().nullable().default(null),
+  speaker: z.string().nullable().default(null),
+});
+
+/** Metadata stored with each transcript chunk. Times are in seconds. */
+export type TranscriptChunkMetadata = z.infer<
+  typeof transcriptChunkMetadataSchema
+>;
+
+export interface TranscriptChunkRecord {
+  text: string;
+  embedding: number[];
+  metadata: TranscriptChunkMetadata;
+}
+
+/**
+ * A vector store request failed. The message is safe to show to users.
+ */
+export class VectorStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VectorStoreError";
+  }
+}
+
+let collection: Promise<Collection> | undefined;
+
+function createChromaClient(): ChromaClient {
+  // A self-hosted server (e.g. `chroma run`), for running without Chroma Cloud
+  if (process.env.CHROMA_URL) {
+    const url = new URL(process.env.CHROMA_URL);
+    const ssl = url.protocol === "https:";
+
+    return new ChromaClient({
+      host: url.hostname,
+      port: Number(url.port) || (ssl ? 443 : 8000),
+      ssl,
+    });
+  }
+
+  return new CloudClient({
+    apiKey: process.env.CHROMA_API_KEY,
+    host: process.env.CHROMA_CLOUD_URL
+      ? new URL(process.env.CHROMA_CLOUD_URL).host
+      : undefined,
+  });
+}
+
+/**
+ * Open the transcripts collection, creating it tagged with the configured
+ * embedding model. Throws EmbeddingError if it was built with another
+ * model, since its vectors could not be compared with ours.
+ */
+async function openTranscriptsCollection(): Promise<Collection> {
+  const embedder = getEmbeddingProvider();
+
+  const transcripts = await createChromaClient().getOrCreateCollection({
+    name: TRANSCRIPTS_COLLECTION,
+    metadata: {
+      embedding_model: embedder.model,
+      embedding_dimensions: embedder.dimensions,
+    },
+    // Embeddings are computed by us, not by Chroma
+    embeddingFunction: null,
+  });
+
+  // Collections created before the model was recorded used OpenAI
+  const model =
+    transcripts.metadata?.embedding_model ?? openAIEmbeddingProvider.model;
+  const dimensions =
+    transcripts.metadata?.embedding_dimensions ??
+    openAIEmbeddingProvider.dimensions;
+
+  if (model !== embedder.model || dimensions !== embedder.dimensions) {
+    throw new EmbeddingError(
+      `The ${TRANSCRIPTS_COLLECTION} collection was built with ${model} ` +
+        `(${dimensions} dimensions) but ${embedder.model} ` +
+        `(${embedder.dimensions} dimensions) is configured. Change ` +
+        `EMBEDDING_PROVIDER back, or set CHROMA_COLLECTION to a new ` +
+        `collection and sync again.`,
+    );
+  }
+
+  return transcripts;
+}
+
+function getTranscriptsCollection(): Promise<Collection> {
+  collection ??= openTranscriptsCollection().catch((error) => {
+    // Don't cache the failure, so the next call reconnects
+    collection = undefined;
+    throw error;
+  });
+
+  return collection;
+}
+
+/**
+ * Replace all stored chunks for an episode. Chunk ids are derived from the
+ * episode UUID and chunk index, so writing the same episode twice never
+ * duplicates chunks.
+ */
+export async function replaceEpisodeChunks(
+  episodeUuid: string,
+  chunks: TranscriptChunkRecord[],
+): Promise<void> {
+  try {
+    const transcripts = await getTranscriptsCollection();
+
+    // Clears chunks left over from a longer, earlier version
+    await transcripts.delete({ where: { episode_uuid: episodeUuid } });
+
+    for (let i = 0; i < chunks.length; i += UPSERT_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + UPSERT_BATCH_SIZE);
+
+      await transcripts.upsert({
+        ids: batch.map((c) => `${episodeUuid}:${c.metadata.chunk_index}`),
+        embeddings: batch.map((c) => c.embedding),
+        documents: batch.map((c) => c.text),
+        metadatas: batch.map((c) => ({ ...c.metadata })),
+      });
+    }
+  } catch (error) {
+    if (error instanceof EmbeddingError) {
+      throw error;
+    }
+    console.error("Error writing transcript chunks:", error);
+    throw new VectorStoreError("Failed to store transcript chunks");
+  }
+}
+
+/** A stored chunk returned by a similarity search. */
+export interface RetrievedChunk {
+  id: string;
+  text: string;
+  metadata: TranscriptChunkMetadata;
+  /** Distance from the query; smaller is more similar. */
+  distance: number | null;
+}
+
+/**
+ * Find the `limit` chunks nearest to a query embedding, searching only the
+ * given episodes. Returns nothing when `episodeUuids` is empty.
+ */
+export async function queryTranscriptChunks(
+  embedding: number[],
+  episodeUuids: string[],
+  limit: number,
+): Promise<RetrievedChunk[]> {
+  if (episodeUuids.length === 0) {
+    return [];
+  }
+
+  try {
+    const transcripts = await getTranscriptsCollection();
+
+    const result = await transcripts.query({
+      queryEmbeddings: [embedding],
+      nResults: limit,
+      where:
+        episodeUuids.length === 1
+          ? { episode_uuid: episodeUuids[0] }
+          : { episode_uuid: { $in: episodeUuids } },
+    });
+
+    return result.ids[0].flatMap((id, i) => {
+      const text = result.documents[0][i];
+      const metadata = transcriptChunkMetadataSchema.safeParse(
+        result.metadatas[0][i],
+      );
+      if (!text) return [];
+
+      if (!metadata.success) {
+        console.error("Invalid transcript chunk metadata:", id, metadata.error);
+        return [];
+      }
+
+      return [
+        {
+          id,
+          text,
+          metadata: metadata.data,
+          distance: result.distances[0][i],
+        },
+      ];
+    });
+  } catch (error) {
+    if (error instanceof EmbeddingError) {
+      throw error;
+    }
+    console.error("Error querying transcript chunks:", error);
+    throw new VectorStoreError("Failed to search transcripts");
+  }
+}
@@ -0,0 +1,151 @@
+import { execFile } from "child_process";
+import { createWriteStream } from "fs";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { promisify } from "util";
+import { z } from "zod";
+import type { TaddyTranscriptItem } from "@/lib/taddy";
+import {
+  TRANSCRIBE_TIMEOUT_MS,
+  TranscriptionError,
+  type TranscriptionProvider,
+} from "@/lib/transcription";
+
+const run = promisify(execFile);
+
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+// Several hours of audio at typical podcast bitrates
+const MAX_AUDIO_BYTES = 500 * 1024 * 1024;
+
+export interface WhisperCppOptions {
+  /** Path to the whisper.cpp CLI (`whisper-cli`, formerly `main`). */
+  binary: string;
+  /** Path to a ggml model file, e.g. `ggml-base.en.bin`. */
+  model: string;
+  /** Path to ffmpeg, used to convert audio to the 16 kHz WAV whisper.cpp reads. */
+  ffmpeg: string;
+  /** CPU threads for whisper.cpp. Defaults to its own choice. */
+  threads?: number;
+}
+
+const whisperOutputSchema = z.object({
+  transcription: z.array(
+    z.object({
+      // Milliseconds
+      offsets: z.object({ from: z.number(), to: z.number() }),
+      text: z.string(),
+    }),
+  ),
+});
+
+const audioTooLarge = () =>
+  new TranscriptionError("The episode audio is too large to transcribe");
+
+async function download(url: string, path: string) {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Audio download failed with status ${response.status}`);
+  }
+
+  if (Number(response.headers.get("content-length")) > MAX_AUDIO_BYTES) {
+    await response.body.cancel();
+    throw audioTooLarge();
+  }
+
+  await pipeline(
+    Readable.fromWeb(response.body as WebReadableStream),
+    // Content-Length may be missing or wrong, so count as it streams
+    async function* (source: AsyncIterable<Buffer>) {
+      let size = 0;
+      for await (const chunk of source) {
+        size += chunk.length;
+        if (size > MAX_AUDIO_BYTES) {
+          throw audioTooLarge();
+        }
+        yield chunk;
+      }
+    },
+    createWriteStream(path),
+  );
+}
+
+/**
+ * Create a provider that transcribes episodes on this machine's CPU with
+ * whisper.cpp, for self-hosted deployments without a transcription API.
+ * whisper.cpp does not identify speakers, so segments have none.
+ */
+export function createWhisperCppProvider(
+  options: WhisperCppOptions,
+): TranscriptionProvider {
+  async function transcribe(audioUrl: string): Promise<TaddyTranscriptItem[]> {
+    const dir = await mkdtemp(join(tmpdir(), "whisper-"));
+    // Download, conversion and transcription share one time budget
+    const deadline = Date.now() + TRANSCRIBE_TIMEOUT_MS;
+    const remaining = () => Math.max(1, deadline - Date.now());
+
+    try {
+      const audioPath = join(dir, "audio");
+      const wavPath = join(dir, "audio.wav");
+      const outputBase = join(dir, "transcript");
+
+      await download(audioUrl, audioPath);
+
+      await run(
+        options.ffmpeg,
+        ["-nostdin", "-i", audioPath, "-ar", "16000", "-ac", "1", wavPath],
+        { timeout: remaining() },
+      );
+
+      await run(
+        options.binary,
+        [
+          "-m",
+          options.model,
+          "-f",
+          wavPath,
+          "--output-json",
+          "--output-file",
+          outputBase,
+          "--no-prints",
+          ...(options.threads ? ["--threads", String(options.threads)] : []),
+        ],
+        { timeout: remaining(), maxBuffer: 64 * 1024 * 1024 },
+      );
+
+      const output = whisperOutputSchema.parse(
+        JSON.parse(await readFile(`${outputBase}.json`, "utf8")),
+      );
+
+      return output.transcription
+        .map((segment) => ({
+          text: segment.text.trim(),
+          startTime: segment.offsets.from / 1000,
+          endTime: segment.offsets.to / 1000,
+          speaker: null,
+        }))
+        .filter((segment) => segment.text);
+    } catch (error) {
+      console.error("whisper.cpp transcription error:", error);
+      if (error instanceof TranscriptionError) {
+        throw error;
+      }
+      throw new TranscriptionError(
+        "The episode audio could not be transcribed",
+        {
+          cause: error,
+        },
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  return { name: "whisper-cpp", transcribe };
+}
@@ -8,6 +8,7 @@ const isProtectedRoute = createRouteMatcher([
   "/api/podcasts(.*)",
   "/api/episodes(.*)",
   "/api/library(.*)",
+  "/api/progress(.*)",
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
@@ -0,0 +1,18 @@
+import { logger, schedules } from "@trigger.dev/sdk/v3";
+import { purgeExpiredTaddyCache } from "@/lib/taddy-cache";
+
+/**
+ * Delete expired Taddy cache rows. Every distinct search adds a row, so
+ * without this the table only grows.
+ */
+export const purgeTaddyCache = schedules.task({
+  id: "purge-taddy-cache",
+  // Every day at 03:00 UTC
+  cron: "0 3 * * *",
+  run: async () => {
+    const deleted = await purgeExpiredTaddyCache();
+
+    logger.log("Taddy cache purged", { deleted });
+    return { deleted };
+  },
+});
@@ -0,0 +1,41 @@
+import { AbortTaskRunError, logger, task } from "@trigger.dev/sdk/v3";
+import {
+  syncEpisodeTranscript,
+  TranscriptSyncError,
+} from "@/lib/transcript-sync";
+import { SYNC_EPISODE_MAX_DURATION_SECONDS } from "@/lib/transcription";
+
+export interface SyncEpisodePayload {
+  /** Registry episode id (`episodes.id`). */
+  episodeId: string;
+  /** User profile to link the transcript to, if any. */
+  userProfileId?: string;
+}
+
+/**
+ * Sync one episode's transcript into the vector store. Runs that find the
+ * transcript already synced, or being synced by another run, only link
+ * the user.
+ */
+export const syncEpisode = task({
+  id: "sync-episode",
+  // Long enough for a local transcription, unlike the project default
+  maxDuration: SYNC_EPISODE_MAX_DURATION_SECONDS,
+  run: async (payload: SyncEpisodePayload) => {
+    try {
+      const result = await syncEpisodeTranscript(
+        payload.episodeId,
+        payload.userProfileId,
+      );
+
+      logger.log("Episode sync finished", { ...result });
+      return result;
+    } catch (error) {
+      // Missing transcripts and episodes won't appear on a retry
+      if (error instanceof TranscriptSyncError && !error.retryable) {
+        throw new AbortTaskRunError(error.message);
+      }
+      throw error;
+    }
+  },
+});
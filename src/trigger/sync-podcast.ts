@@ -0,0 +1,167 @@
+import { logger, task, wait } from "@trigger.dev/sdk/v3";
+import { createAdminClient } from "@/lib/supabase/server";
+import { storeBackCatalog } from "@/lib/episodes";
+import {
+  DEFAULT_SYNC_CONCURRENCY,
+  getSyncJob,
+  updateSyncJob,
+} from "@/lib/sync-jobs";
+import {
+  getTranscriptStatuses,
+  linkSyncedEpisodes,
+} from "@/lib/transcript-sync";
+import { syncEpisode } from "@/trigger/sync-episode";
+
+// How often, and how many times, to check on episodes another run was
+// already syncing before giving up on them
+const SYNCING_RECHECK_SECONDS = 30;
+const MAX_SYNCING_RECHECKS = 20;
+
+export interface SyncPodcastPayload {
+  /** The `sync_jobs` row tracking this run. */
+  jobId: string;
+}
+
+/**
+ * Sync every episode of a podcast for the user who started the job.
+ * Episodes already synced are linked without a run of their own; the rest
+ * are synced by sync-episode runs, `concurrency` at a time. Episodes
+ * another run was already syncing are checked on until they finish.
+ * Progress is written to the job row after each batch, and the job stops
+ * between batches once it is cancelled.
+ */
+export const syncPodcast = task({
+  id: "sync-podcast",
+  run: async (payload: SyncPodcastPayload) => {
+    const job = await getSyncJob(payload.jobId);
+
+    if (job.status === "cancelled") {
+      return { status: "cancelled", done: 0, failed: 0 };
+    }
+
+    await updateSyncJob(job.id, {
+      status: "running",
+      error_message: null,
+      started_at: new Date().toISOString(),
+    });
+
+    try {
+      const { data: podcast, error } = await createAdminClient()
+        .from("podcasts")
+        .select("id, taddy_uuid")
+        .eq("id", job.podcast_id)
+        .single();
+
+      if (error || !podcast) {
+        throw new Error("Podcast not found");
+      }
+      if (!podcast.taddy_uuid) {
+        throw new Error("Podcasts added by RSS URL cannot be synced yet");
+      }
+
+      const episodes = await storeBackCatalog(podcast);
+      const synced = await linkSyncedEpisodes(job.user_id, podcast.id);
+      const pending = episodes.filter((episode) => !synced.has(episode.id));
+
+      let done = episodes.length - pending.length;
+      let failed = 0;
+      // Episodes another run is syncing, counted once that run finishes
+      const syncing = new Set<string>();
+
+      let active = await updateSyncJob(job.id, {
+        total_count: episodes.length,
+        queued_count: pending.length,
+        done_count: done,
+        failed_count: failed,
+      });
+
+      const concurrency = job.concurrency ?? DEFAULT_SYNC_CONCURRENCY;
+
+      for (let i = 0; active && i < pending.length; i += concurrency) {
+        const batch = pending.slice(i, i + concurrency);
+
+        const { runs } = await syncEpisode.batchTriggerAndWait(
+          batch.map((episode) => ({
+            payload: { episodeId: episode.id, userProfileId: job.user_id },
+          })),
+        );
+
+        for (const run of runs) {
+          if (!run.ok || run.output.status === "failed") {
+            failed++;
+          } else if (run.output.status === "synced") {
+            done++;
+          } else {
+            syncing.add(run.output.episodeId);
+          }
+        }
+
+        active = await updateSyncJob(job.id, {
+          queued_count: pending.length - i - batch.length + syncing.size,
+          done_count: done,
+          failed_count: failed,
+        });
+      }
+
+      for (
+        let check = 1;
+        active && syncing.size > 0 && check <= MAX_SYNCING_RECHECKS;
+        check++
+      ) {
+        await wait.for({ seconds: SYNCING_RECHECK_SECONDS });
+
+        const statuses = await getTranscriptStatuses([...syncing]);
+        for (const episodeId of syncing) {
+          const status = statuses.get(episodeId);
+          if (status === "synced") {
+            done++;
+            syncing.delete(episodeId);
+          } else if (status !== "syncing" && status !== "queued") {
+            failed++;
+            syncing.delete(episodeId);
+          }
+        }
+
+        active = await updateSyncJob(job.id, {
+          queued_count: syncing.size,
+          done_count: done,
+          failed_count: failed,
+        });
+      }
+
+      if (active && syncing.size > 0) {
+        logger.warn("Episodes still syncing elsewhere", {
+          jobId: job.id,
+          episodeIds: [...syncing],
+        });
+        failed += syncing.size;
+        active = await updateSyncJob(job.id, {
+          queued_count: 0,
+          failed_count: failed,
+        });
+      }
+
+      if (!active) {
+        logger.log("Podcast sync cancelled", { jobId: job.id, done, failed });
+        return { status: "cancelled", done, failed };
+      }
+
+      await updateSyncJob(job.id, {
+        status: "completed",
+        completed_at: new Date().toISOString(),
+      });
+
+      logger.log("Podcast sync finished", { jobId: job.id, done, failed });
+      return { status: "completed", done, failed };
+    } catch (error) {
+      await updateSyncJob(job.id, {
+        status: "failed",
+        error_message:
+          error instanceof Error ? error.message : "Podcast sync failed",
+        completed_at: new Date().toISOString(),
+      });
+
+      throw error;
+    }
+  },
+});
@@ -0,0 +1,13 @@
+-- Shared response cache for Taddy GraphQL queries (see src/lib/taddy-cache.ts)
+CREATE TABLE taddy_cache (
+  key TEXT PRIMARY KEY, -- '<query type>:<sha256 of query + variables>'
+  value JSONB NOT NULL,
+  fresh_until TIMESTAMPTZ NOT NULL,
+  stale_until TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX taddy_cache_stale_until_idx ON taddy_cache (stale_until);
+
+-- Only the server (secret key) reads and writes the cache
+ALTER TABLE taddy_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,9 @@
+-- Podcasts added directly by RSS/Atom feed URL have no Taddy identity.
+-- They are keyed by their feed URL (rss_url) instead.
+ALTER TABLE podcasts ALTER COLUMN taddy_uuid DROP NOT NULL;
+
+CREATE UNIQUE INDEX podcasts_feed_url_idx ON podcasts (rss_url)
+  WHERE taddy_uuid IS NULL;
+
+ALTER TABLE podcasts ADD CONSTRAINT podcasts_identity_check
+  CHECK (taddy_uuid IS NOT NULL OR rss_url IS NOT NULL);
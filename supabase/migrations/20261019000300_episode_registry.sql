@@ -0,0 +1,7 @@
+-- The episodes table is a shared registry filled from Taddy as podcasts are
+-- viewed (see src/lib/episodes.ts)
+CREATE INDEX episodes_podcast_published_idx
+  ON episodes (podcast_id, published_at DESC);
+
+-- When the podcast's episodes were last refreshed from Taddy
+ALTER TABLE podcasts ADD COLUMN episodes_refreshed_at TIMESTAMPTZ;
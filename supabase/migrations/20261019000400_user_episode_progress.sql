@@ -0,0 +1,24 @@
+-- Where each user left off in each episode (see src/lib/progress.ts).
+-- Keyed by the episode's directory UUID, or its feed id for podcasts added
+-- by RSS URL, since those episodes are not in the episodes registry.
+CREATE TABLE user_episode_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  podcast_id UUID REFERENCES podcasts(id) ON DELETE CASCADE NOT NULL,
+  episode_uuid TEXT NOT NULL,
+  position_seconds INTEGER NOT NULL DEFAULT 0,
+  duration_seconds INTEGER,
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  last_played_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, episode_uuid)
+);
+
+CREATE INDEX user_episode_progress_podcast_idx
+  ON user_episode_progress (user_id, podcast_id);
+
+ALTER TABLE user_episode_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own episode progress" ON user_episode_progress
+  FOR ALL USING (user_id IN (
+    SELECT id FROM user_profiles WHERE clerk_user_id = auth.jwt() ->> 'sub'
+  ));
@@ -0,0 +1,8 @@
+-- Transcript rows are created as "queued" before we know which source
+-- will produce the transcript (see src/lib/transcript-sync.ts)
+ALTER TABLE transcripts ALTER COLUMN source DROP NOT NULL;
+
+UPDATE transcripts SET status = 'not_synced' WHERE status IS NULL;
+ALTER TABLE transcripts ALTER COLUMN status SET NOT NULL;
+ALTER TABLE transcripts ADD CONSTRAINT transcripts_status_check
+  CHECK (status IN ('not_synced', 'queued', 'syncing', 'synced', 'failed'));
@@ -0,0 +1,28 @@
+-- sync_jobs rows also track "sync all episodes" runs for a whole podcast
+-- (see src/lib/sync-jobs.ts). Those rows have a podcast_id and no
+-- episode_id, and keep aggregate counts as the child runs finish.
+ALTER TABLE sync_jobs
+  ADD COLUMN podcast_id UUID REFERENCES podcasts(id) ON DELETE CASCADE,
+  ADD COLUMN total_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN queued_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN done_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN failed_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN concurrency INTEGER,
+  ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- queued, running, completed, failed, cancelled
+ALTER TABLE sync_jobs ADD CONSTRAINT sync_jobs_status_check
+  CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'));
+
+CREATE INDEX sync_jobs_user_podcast_idx
+  ON sync_jobs (user_id, podcast_id, created_at DESC);
+
+-- One active sync per user and podcast
+CREATE UNIQUE INDEX sync_jobs_active_podcast_idx
+  ON sync_jobs (user_id, podcast_id)
+  WHERE podcast_id IS NOT NULL AND status IN ('queued', 'running');
+
+CREATE POLICY "Users can manage own sync jobs" ON sync_jobs
+  FOR ALL USING (user_id IN (
+    SELECT id FROM user_profiles WHERE clerk_user_id = auth.jwt() ->> 'sub'
+  ));
@@ -0,0 +1,6 @@
+-- Chat searches the episodes a user has synced (see src/lib/chat.ts), which
+-- it reads with the user's own session
+CREATE POLICY "Users can view own synced episodes" ON user_synced_episodes
+  FOR SELECT USING (user_id IN (
+    SELECT id FROM user_profiles WHERE clerk_user_id = auth.jwt() ->> 'sub'
+  ));
@@ -0,0 +1,63 @@
+-- Chat history (see src/lib/chat-sessions.ts). `content` keeps the plain
+-- text of a message for search; `parts` keeps the AI SDK UI message parts
+-- it is rendered from.
+ALTER TABLE chat_messages
+  ADD COLUMN parts JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN model TEXT,
+  ADD COLUMN input_tokens INTEGER,
+  ADD COLUMN output_tokens INTEGER;
+
+CREATE INDEX chat_messages_session_idx
+  ON chat_messages (session_id, created_at);
+
+CREATE INDEX chat_sessions_user_updated_idx
+  ON chat_sessions (user_id, updated_at DESC);
+
+CREATE POLICY "Users can manage own chat sessions" ON chat_sessions
+  FOR ALL USING (user_id IN (
+    SELECT id FROM user_profiles WHERE clerk_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can manage own chat messages" ON chat_messages
+  FOR ALL USING (session_id IN (
+    SELECT chat_sessions.id FROM chat_sessions
+    JOIN user_profiles ON user_profiles.id = chat_sessions.user_id
+    WHERE user_profiles.clerk_user_id = auth.jwt() ->> 'sub'
+  ));
+
+-- Append a user question and its answer in one transaction, so history
+-- never holds a question without its answer. Titles untitled sessions
+-- after their first question.
+CREATE FUNCTION append_chat_exchange(
+  p_session_id UUID,
+  p_user_message JSONB,
+  p_assistant_message JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO chat_messages
+    (session_id, role, content, parts, citations, model, input_tokens,
+     output_tokens, created_at)
+  SELECT
+    p_session_id,
+    m->>'role',
+    m->>'content',
+    COALESCE(m->'parts', '[]'),
+    m->'citations',
+    m->>'model',
+    (m->>'input_tokens')::INTEGER,
+    (m->>'output_tokens')::INTEGER,
+    -- Keep the question ordered before its answer
+    NOW() + (ord - 1) * INTERVAL '1 millisecond'
+  FROM jsonb_array_elements(
+    jsonb_build_array(p_user_message, p_assistant_message)
+  ) WITH ORDINALITY AS t(m, ord);
+
+  UPDATE chat_sessions
+  SET
+    updated_at = NOW(),
+    title = COALESCE(title, LEFT(p_user_message->>'content', 80))
+  WHERE id = p_session_id;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- When the podcast's whole back catalog was last stored in the episodes
+-- registry (see storeBackCatalog in src/lib/episodes.ts). Null until then,
+-- in which case the registry may hold only the newest episodes.
+ALTER TABLE podcasts ADD COLUMN catalog_stored_at TIMESTAMPTZ;
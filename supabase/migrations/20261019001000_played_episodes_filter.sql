@@ -0,0 +1,22 @@
+-- A podcast's stored episodes that the current user has (p_played) or has
+-- not finished, for the played/unplayed episode filter (see
+-- getStoredEpisodes in src/lib/episodes.ts). Runs as the caller, so RLS
+-- limits user_episode_progress to the current user's rows. Callers add
+-- their other filters, ordering and paging to the result.
+CREATE FUNCTION podcast_episodes_by_played(
+  p_podcast_id UUID,
+  p_played BOOLEAN
+) RETURNS SETOF episodes
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.*
+  FROM episodes e
+  WHERE e.podcast_id = p_podcast_id
+    AND EXISTS (
+      SELECT 1
+      FROM user_episode_progress p
+      WHERE p.episode_uuid = e.taddy_uuid
+        AND p.completed
+    ) = p_played;
+$$;
@@ -0,0 +1,5 @@
+-- How many of the podcast's newest episodes the episodes registry holds
+-- without gaps (see src/lib/episodes.ts). Newest-first pages within this
+-- range are read from the registry; later ones come from the directory
+-- until the whole back catalog is stored (catalog_stored_at).
+ALTER TABLE podcasts ADD COLUMN newest_stored_count INTEGER NOT NULL DEFAULT 0;